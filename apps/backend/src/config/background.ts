@@ -0,0 +1,14 @@
+export interface BackgroundConfig {
+  // 'in-process' runs bulk jobs and deferred re-checks inside the API server; 'worker'
+  // leaves them to `npm run worker`, for hosts that stop the API between requests
+  mode: 'in-process' | 'worker';
+  // How often queued and abandoned bulk jobs are looked for
+  pollIntervalMs: number;
+}
+
+export function loadBackgroundConfig(env: NodeJS.ProcessEnv = process.env): BackgroundConfig {
+  return {
+    mode: env['BACKGROUND_JOBS'] === 'worker' ? 'worker' : 'in-process',
+    pollIntervalMs: parseInt(env['WORKER_POLL_INTERVAL_MS'] || '5000'),
+  };
+}
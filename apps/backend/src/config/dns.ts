@@ -0,0 +1,34 @@
+export interface DnsConfig {
+  // 'system' uses the OS resolver (or DNS_NAMESERVERS); 'doh' queries a DNS-over-HTTPS JSON endpoint
+  mode: 'system' | 'doh';
+  nameservers: string[];
+  dohUrl: string;
+  timeoutMs: number;
+  cache: {
+    enabled: boolean;
+    // Bounds applied to record TTLs; defaultTtl is used when the upstream reports none
+    minTtl: number;
+    maxTtl: number;
+    defaultTtl: number;
+    negativeTtl: number;
+  };
+}
+
+export function loadDnsConfig(env: NodeJS.ProcessEnv = process.env): DnsConfig {
+  return {
+    mode: env['DNS_RESOLVER'] === 'doh' ? 'doh' : 'system',
+    nameservers: (env['DNS_NAMESERVERS'] || '')
+      .split(',')
+      .map(server => server.trim())
+      .filter(Boolean),
+    dohUrl: env['DNS_DOH_URL'] || 'https://cloudflare-dns.com/dns-query',
+    timeoutMs: parseInt(env['DNS_TIMEOUT_MS'] || '5000'),
+    cache: {
+      enabled: env['DNS_CACHE'] !== 'false',
+      minTtl: parseInt(env['DNS_CACHE_MIN_TTL'] || '30'),
+      maxTtl: parseInt(env['DNS_CACHE_MAX_TTL'] || '3600'),
+      defaultTtl: parseInt(env['DNS_CACHE_DEFAULT_TTL'] || '300'),
+      negativeTtl: parseInt(env['DNS_NEGATIVE_TTL'] || '300'),
+    },
+  };
+}
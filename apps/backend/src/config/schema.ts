@@ -1,4 +1,4 @@
-import { pgTable, varchar, text, timestamp, integer, boolean, jsonb, primaryKey, index } from 'drizzle-orm/pg-core';
+import { pgTable, varchar, text, timestamp, integer, boolean, jsonb, primaryKey, index, uniqueIndex } from 'drizzle-orm/pg-core';
 
 // Users table (managed by Clerk)
 export const users = pgTable('users', {
@@ -20,6 +20,11 @@ export const apiKeys = pgTable('api_keys', {
   isActive: boolean('is_active').default(true).notNull(),
   lastUsedAt: timestamp('last_used_at'),
   expiresAt: timestamp('expires_at'),
+  // Verification providers run for this key; null uses VERIFICATION_PROVIDERS
+  verificationProviders: jsonb('verification_providers').$type<Array<{
+    id: string;
+    timeoutMs?: number | undefined;
+  }>>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
@@ -30,16 +35,50 @@ export const apiKeys = pgTable('api_keys', {
 // Email validation results table
 export const emailValidations = pgTable('email_validations', {
   id: varchar('id', { length: 191 }).primaryKey(),
+  // Key that requested the validation; only it can read the result back
+  apiKeyId: varchar('api_key_id', { length: 191 }),
+  // Bulk job row waiting on this result, when a bulk job stored it
+  bulkRowId: varchar('bulk_row_id', { length: 191 }),
   email: varchar('email', { length: 255 }).notNull(),
   domain: varchar('domain', { length: 255 }).notNull(),
   isValid: boolean('is_valid').notNull(),
+  status: varchar('status', { length: 20 }), // 'deliverable', 'undeliverable', 'risky', 'unknown'
+  reason: varchar('reason', { length: 50 }), // e.g. 'mailbox-unknown', 'mailbox-full', 'policy-block'
   isCatchAll: boolean('is_catch_all').notNull(),
   mxRecords: jsonb('mx_records').$type<string[]>(),
   mxProvider: varchar('mx_provider', { length: 100 }),
   smtpResponse: text('smtp_response'),
+  smtpIdentity: jsonb('smtp_identity').$type<{
+    id: string;
+    localAddress?: string | undefined;
+    heloHostname: string;
+    mailFrom: string;
+  }>(),
   validationMethod: varchar('validation_method', { length: 50 }).notNull(),
   confidence: integer('confidence'), // 0-100
+  // Factors that add up to confidence
+  confidenceExplanation: jsonb('confidence_explanation').$type<Array<{
+    factor: string;
+    contribution: number;
+    detail: string;
+  }>>(),
   linkedinVerified: boolean('linkedin_verified'),
+  // Evidence from external verification providers
+  verification: jsonb('verification').$type<Array<{
+    provider: string;
+    status: string;
+    contribution: number;
+    detail: string;
+    data?: Record<string, unknown> | undefined;
+    durationMs: number;
+  }>>(),
+  isDisposable: boolean('is_disposable').default(false).notNull(),
+  isFreeProvider: boolean('is_free_provider').default(false).notNull(),
+  isRoleAccount: boolean('is_role_account').default(false).notNull(),
+  isDeferred: boolean('is_deferred').default(false).notNull(), // greylisted, awaiting retry
+  retryCount: integer('retry_count').default(0).notNull(),
+  nextRetryAt: timestamp('next_retry_at'),
+  resolvedAt: timestamp('resolved_at'),
   linkedinData: jsonb('linkedin_data').$type<{
     profileUrl?: string;
     position?: string;
@@ -50,25 +89,117 @@ export const emailValidations = pgTable('email_validations', {
   expiresAt: timestamp('expires_at').notNull(),
 }, (table) => ({
   emailIdx: index('email_idx').on(table.email),
+  emailApiKeyIdx: index('email_api_key_idx').on(table.email, table.apiKeyId),
+  bulkRowIdx: index('email_bulk_row_idx').on(table.bulkRowId),
   domainIdx: index('domain_idx').on(table.domain),
   createdAtIdx: index('created_at_idx').on(table.createdAt),
 }));
 
+// Domain profiles table (catch-all status and MX set, shared by all validations for a domain)
+export const domainProfiles = pgTable('domain_profiles', {
+  domain: varchar('domain', { length: 255 }).primaryKey(),
+  mxRecords: jsonb('mx_records').$type<Array<{
+    exchange: string;
+    priority: number;
+    provider?: string | undefined;
+    providerRuleId?: string | undefined;
+    isImplicit?: boolean | undefined;
+  }>>().notNull(),
+  dnsOutcome: varchar('dns_outcome', { length: 20 }), // 'mx', 'implicit-mx', 'null-mx', 'nxdomain', 'no-data'
+  mxProvider: varchar('mx_provider', { length: 100 }),
+  mxProviderRuleId: varchar('mx_provider_rule_id', { length: 191 }),
+  isCatchAll: boolean('is_catch_all'), // null when not probed or inconclusive
+  catchAllProbed: boolean('catch_all_probed').default(false).notNull(),
+  probedAt: timestamp('probed_at').notNull(),
+  expiresAt: timestamp('expires_at').notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  domainProfileExpiresAtIdx: index('domain_profile_expires_at_idx').on(table.expiresAt),
+}));
+
+// MX provider detection rules (editable through the admin API)
+export const mxProviderRules = pgTable('mx_provider_rules', {
+  id: varchar('id', { length: 191 }).primaryKey(),
+  provider: varchar('provider', { length: 100 }).notNull(),
+  matchType: varchar('match_type', { length: 20 }).notNull(), // 'exact', 'suffix', 'regex'
+  pattern: varchar('pattern', { length: 255 }).notNull(),
+  priority: integer('priority').default(100).notNull(), // lower values are tried first
+  isActive: boolean('is_active').default(true).notNull(),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  mxProviderRulePriorityIdx: index('mx_provider_rule_priority_idx').on(table.priority),
+}));
+
 // Email patterns table
 export const emailPatterns = pgTable('email_patterns', {
   id: varchar('id', { length: 191 }).primaryKey(),
   domain: varchar('domain', { length: 255 }).notNull(),
   pattern: varchar('pattern', { length: 100 }).notNull(),
-  patternType: varchar('pattern_type', { length: 50 }).notNull(), // 'common', 'custom', 'domain-specific'
+  patternType: varchar('pattern_type', { length: 50 }).notNull(), // 'common', 'custom', 'domain-specific', 'learned'
   successRate: integer('success_rate'), // 0-100
+  // Definitive SMTP verdicts on non-catch-all domains for addresses built with this pattern
+  successCount: integer('success_count').default(0).notNull(),
+  attemptCount: integer('attempt_count').default(0).notNull(),
   sampleEmails: jsonb('sample_emails').$type<string[]>(),
   createdAt: timestamp('created_at').defaultNow().notNull(),
   updatedAt: timestamp('updated_at').defaultNow().notNull(),
 }, (table) => ({
+  patternDomainPatternIdx: uniqueIndex('pattern_domain_pattern_idx').on(table.domain, table.pattern),
   patternDomainIdx: index('pattern_domain_idx').on(table.domain),
   patternTypeIdx: index('pattern_type_idx').on(table.patternType),
 }));
 
+// Bulk email-finding jobs table
+export const bulkJobs = pgTable('bulk_jobs', {
+  id: varchar('id', { length: 191 }).primaryKey(),
+  apiKeyId: varchar('api_key_id', { length: 191 }).notNull(),
+  fileName: varchar('file_name', { length: 255 }),
+  status: varchar('status', { length: 20 }).notNull(), // 'queued', 'processing', 'completed', 'failed'
+  totalRows: integer('total_rows').default(0).notNull(),
+  processedRows: integer('processed_rows').default(0).notNull(),
+  foundRows: integer('found_rows').default(0).notNull(),
+  failedRows: integer('failed_rows').default(0).notNull(),
+  options: jsonb('options').$type<{
+    validateEmails: boolean;
+    maxCandidates: number;
+    timeout: number;
+  }>(),
+  error: text('error'),
+  startedAt: timestamp('started_at'),
+  completedAt: timestamp('completed_at'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  bulkJobApiKeyIdx: index('bulk_job_api_key_idx').on(table.apiKeyId),
+  bulkJobStatusIdx: index('bulk_job_status_idx').on(table.status),
+}));
+
+// Bulk job rows table
+export const bulkJobRows = pgTable('bulk_job_rows', {
+  id: varchar('id', { length: 191 }).primaryKey(),
+  jobId: varchar('job_id', { length: 191 }).notNull(),
+  rowIndex: integer('row_index').notNull(),
+  firstName: varchar('first_name', { length: 100 }).notNull(),
+  middleName: varchar('middle_name', { length: 100 }),
+  lastName: varchar('last_name', { length: 100 }).notNull(),
+  domain: varchar('domain', { length: 255 }).notNull(),
+  companyName: varchar('company_name', { length: 255 }),
+  status: varchar('status', { length: 20 }).notNull(), // 'pending', 'found', 'catch_all', 'guessed', 'deferred', 'not_found', 'failed'
+  email: varchar('email', { length: 255 }),
+  pattern: varchar('pattern', { length: 100 }),
+  confidence: integer('confidence'), // 0-100
+  isCatchAll: boolean('is_catch_all'),
+  candidatesChecked: integer('candidates_checked').default(0).notNull(),
+  error: text('error'),
+  createdAt: timestamp('created_at').defaultNow().notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+}, (table) => ({
+  bulkRowJobIdx: index('bulk_row_job_idx').on(table.jobId, table.rowIndex),
+  bulkRowStatusIdx: index('bulk_row_status_idx').on(table.jobId, table.status),
+}));
+
 // Rate limiting table
 export const rateLimits = pgTable('rate_limits', {
   id: varchar('id', { length: 191 }).primaryKey(),
@@ -83,11 +214,23 @@ export const rateLimits = pgTable('rate_limits', {
   windowStartIdx: index('window_start_idx').on(table.windowStart),
 }));
 
+// One-off flags and settings shared by all instances
+export const systemSettings = pgTable('system_settings', {
+  key: varchar('key', { length: 100 }).primaryKey(),
+  value: jsonb('value').notNull(),
+  updatedAt: timestamp('updated_at').defaultNow().notNull(),
+});
+
 // Export schema for database connection
 export const schema = {
   users,
   apiKeys,
   emailValidations,
+  domainProfiles,
+  mxProviderRules,
   emailPatterns,
+  bulkJobs,
+  bulkJobRows,
   rateLimits,
+  systemSettings,
 };
@@ -0,0 +1,42 @@
+import { hostname } from 'os';
+
+export interface SmtpIdentity {
+  id: string;
+  localAddress?: string | undefined;
+  heloHostname: string;
+  mailFrom: string;
+}
+
+// SMTP_IDENTITY_POOL entries are comma-separated "localAddress|heloHostname|mailFrom";
+// hostname and sender fall back to SMTP_HELO_HOSTNAME / SMTP_MAIL_FROM when omitted.
+export function loadSmtpIdentities(env: NodeJS.ProcessEnv = process.env): SmtpIdentity[] {
+  const defaultHelo = env['SMTP_HELO_HOSTNAME'] || hostname();
+  const defaultMailFrom = env['SMTP_MAIL_FROM'] || `verify@${defaultHelo}`;
+
+  const pool = (env['SMTP_IDENTITY_POOL'] || '')
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      const [localAddress, heloHostname, mailFrom] = entry.split('|').map(part => part.trim());
+      const helo = heloHostname || defaultHelo;
+      return {
+        id: `${localAddress || 'default'}/${helo}`,
+        localAddress: localAddress || undefined,
+        heloHostname: helo,
+        mailFrom: mailFrom || (heloHostname ? `verify@${heloHostname}` : defaultMailFrom),
+      };
+    });
+
+  if (pool.length > 0) {
+    return pool;
+  }
+
+  const localAddress = env['SMTP_LOCAL_ADDRESS'] || undefined;
+  return [{
+    id: `${localAddress || 'default'}/${defaultHelo}`,
+    localAddress,
+    heloHostname: defaultHelo,
+    mailFrom: defaultMailFrom,
+  }];
+}
@@ -0,0 +1,50 @@
+export interface VerificationConfig {
+  // Providers run for API keys that have no list of their own
+  defaultProviders: string[];
+  // Per-provider time limit unless the API key sets one
+  timeoutMs: number;
+  linkedin: {
+    enabled: boolean;
+  };
+  // GET <url>?email=... answering { contact: {...} } or 404
+  crm: {
+    url: string;
+    token: string;
+  };
+  // Directory of git mirrors (bare or working copies) searched for commit authors
+  gitMirror: {
+    path: string;
+  };
+  // Canned answers for tests and local development
+  fake: {
+    enabled: boolean;
+    emails: string[];
+  };
+}
+
+export function loadVerificationConfig(env: NodeJS.ProcessEnv = process.env): VerificationConfig {
+  return {
+    defaultProviders: (env['VERIFICATION_PROVIDERS'] || 'linkedin')
+      .split(',')
+      .map(id => id.trim())
+      .filter(Boolean),
+    timeoutMs: parseInt(env['VERIFICATION_TIMEOUT_MS'] || '5000'),
+    linkedin: {
+      enabled: env['LINKEDIN_VERIFICATION'] !== 'false',
+    },
+    crm: {
+      url: env['CRM_LOOKUP_URL'] || '',
+      token: env['CRM_LOOKUP_TOKEN'] || '',
+    },
+    gitMirror: {
+      path: env['GIT_MIRROR_PATH'] || '',
+    },
+    fake: {
+      enabled: env['VERIFICATION_FAKE_PROVIDER'] === 'true',
+      emails: (env['VERIFICATION_FAKE_EMAILS'] || '')
+        .split(',')
+        .map(email => email.trim().toLowerCase())
+        .filter(Boolean),
+    },
+  };
+}
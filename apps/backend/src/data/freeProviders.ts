@@ -0,0 +1,67 @@
+// Bundled free webmail providers. Extend at runtime with FREE_PROVIDERS_FILE.
+export const freeProviders: string[] = [
+  'aim.com',
+  'aol.com',
+  'bk.ru',
+  'btinternet.com',
+  'comcast.net',
+  'email.com',
+  'fastmail.com',
+  'free.fr',
+  'gmail.com',
+  'gmx.at',
+  'gmx.com',
+  'gmx.de',
+  'gmx.net',
+  'googlemail.com',
+  'hey.com',
+  'hotmail.co.uk',
+  'hotmail.com',
+  'hotmail.de',
+  'hotmail.fr',
+  'hotmail.it',
+  'icloud.com',
+  'inbox.ru',
+  'laposte.net',
+  'libero.it',
+  'list.ru',
+  'live.co.uk',
+  'live.com',
+  'live.de',
+  'live.fr',
+  'mac.com',
+  'mail.com',
+  'mail.ru',
+  'me.com',
+  'msn.com',
+  'naver.com',
+  'orange.fr',
+  'outlook.com',
+  'outlook.de',
+  'outlook.fr',
+  'pm.me',
+  'proton.me',
+  'protonmail.com',
+  'qq.com',
+  'rambler.ru',
+  'rediffmail.com',
+  'seznam.cz',
+  'sfr.fr',
+  't-online.de',
+  'tutanota.com',
+  'tuta.io',
+  'web.de',
+  'wp.pl',
+  'yahoo.co.in',
+  'yahoo.co.jp',
+  'yahoo.co.uk',
+  'yahoo.com',
+  'yahoo.de',
+  'yahoo.fr',
+  'yandex.com',
+  'yandex.ru',
+  'ymail.com',
+  'zoho.com',
+  '126.com',
+  '163.com',
+];
@@ -0,0 +1,43 @@
+// Bundled MX provider rules, seeded into mx_provider_rules when the table is empty.
+// suffix: the host equals the pattern or ends with "." + pattern; regex: case-insensitive match.
+export interface MxProviderRuleSeed {
+  id: string;
+  provider: string;
+  matchType: 'exact' | 'suffix' | 'regex';
+  pattern: string;
+  priority: number;
+}
+
+export const defaultMxProviderRules: MxProviderRuleSeed[] = [
+  { id: 'google-workspace', provider: 'Google Workspace', matchType: 'suffix', pattern: 'google.com', priority: 10 },
+  { id: 'google-workspace-googlemail', provider: 'Google Workspace', matchType: 'suffix', pattern: 'googlemail.com', priority: 10 },
+  { id: 'microsoft-365', provider: 'Microsoft 365', matchType: 'suffix', pattern: 'mail.protection.outlook.com', priority: 10 },
+  { id: 'outlook-com', provider: 'Outlook.com', matchType: 'suffix', pattern: 'olc.protection.outlook.com', priority: 10 },
+  { id: 'yahoo', provider: 'Yahoo', matchType: 'suffix', pattern: 'yahoodns.net', priority: 10 },
+  { id: 'icloud', provider: 'iCloud Mail', matchType: 'suffix', pattern: 'mail.icloud.com', priority: 10 },
+  { id: 'zoho', provider: 'Zoho', matchType: 'regex', pattern: '(^|\\.)zoho\\.(com|eu|in|jp|sa|com\\.au|com\\.cn)$', priority: 10 },
+  { id: 'proton', provider: 'Proton Mail', matchType: 'suffix', pattern: 'protonmail.ch', priority: 10 },
+  { id: 'fastmail', provider: 'Fastmail', matchType: 'suffix', pattern: 'messagingengine.com', priority: 10 },
+  { id: 'yandex', provider: 'Yandex', matchType: 'suffix', pattern: 'yandex.net', priority: 10 },
+  { id: 'mail-ru', provider: 'Mail.ru', matchType: 'suffix', pattern: 'mail.ru', priority: 10 },
+  { id: 'gmx', provider: 'GMX', matchType: 'suffix', pattern: 'gmx.net', priority: 10 },
+  { id: 'web-de', provider: 'WEB.DE', matchType: 'suffix', pattern: 'web.de', priority: 10 },
+  { id: 'godaddy', provider: 'GoDaddy', matchType: 'suffix', pattern: 'secureserver.net', priority: 10 },
+  { id: 'ovh', provider: 'OVHcloud', matchType: 'suffix', pattern: 'ovh.net', priority: 10 },
+  { id: 'aws-ses', provider: 'AWS SES', matchType: 'regex', pattern: '^inbound-smtp\\.[a-z0-9-]+\\.amazonaws\\.com$', priority: 10 },
+
+  // Security gateways in front of the actual mailbox provider
+  { id: 'proofpoint', provider: 'Proofpoint', matchType: 'suffix', pattern: 'pphosted.com', priority: 20 },
+  { id: 'proofpoint-essentials', provider: 'Proofpoint', matchType: 'suffix', pattern: 'ppe-hosted.com', priority: 20 },
+  { id: 'mimecast', provider: 'Mimecast', matchType: 'regex', pattern: '(^|\\.)mimecast(-offshore)?\\.(com|co\\.za)$', priority: 20 },
+  { id: 'barracuda', provider: 'Barracuda', matchType: 'suffix', pattern: 'barracudanetworks.com', priority: 20 },
+  { id: 'cisco-secure-email', provider: 'Cisco Secure Email', matchType: 'suffix', pattern: 'iphmx.com', priority: 20 },
+  { id: 'broadcom-email-security', provider: 'Broadcom Email Security.cloud', matchType: 'suffix', pattern: 'messagelabs.com', priority: 20 },
+  { id: 'trend-micro', provider: 'Trend Micro', matchType: 'regex', pattern: '(^|\\.)trendmicro\\.(com|eu)$', priority: 20 },
+  { id: 'sophos', provider: 'Sophos', matchType: 'suffix', pattern: 'sophos.com', priority: 20 },
+  { id: 'hornetsecurity', provider: 'Hornetsecurity', matchType: 'suffix', pattern: 'hornetsecurity.com', priority: 20 },
+  { id: 'forcepoint', provider: 'Forcepoint', matchType: 'suffix', pattern: 'mailcontrol.com', priority: 20 },
+
+  // Generic host names of on-premises servers; only consulted when nothing else matched
+  { id: 'exchange-self-hosted', provider: 'Microsoft Exchange (self-hosted)', matchType: 'regex', pattern: '^(exchange|exch|owa)\\d*\\.', priority: 90 },
+];
@@ -0,0 +1,80 @@
+// Bundled English given names and their common short forms, keyed by formal name.
+// Lookups go both ways: "william" suggests "bill", and "bill" suggests "william".
+export const nicknames: Record<string, string[]> = {
+  abigail: ['abby', 'gail'],
+  albert: ['al', 'bert'],
+  alexander: ['alex', 'xander', 'sasha'],
+  alexandra: ['alex', 'lexi', 'sasha'],
+  alfred: ['alf', 'fred'],
+  andrew: ['andy', 'drew'],
+  anthony: ['tony'],
+  barbara: ['barb', 'babs'],
+  benjamin: ['ben', 'benny'],
+  bradley: ['brad'],
+  catherine: ['cathy', 'kate', 'katie'],
+  charles: ['charlie', 'chuck', 'chas'],
+  charlotte: ['charlie', 'lottie'],
+  christina: ['chris', 'tina'],
+  christine: ['chris', 'chrissy'],
+  christopher: ['chris', 'kit'],
+  cynthia: ['cindy'],
+  daniel: ['dan', 'danny'],
+  david: ['dave', 'davy'],
+  deborah: ['deb', 'debbie'],
+  donald: ['don', 'donny'],
+  dorothy: ['dot', 'dottie'],
+  douglas: ['doug'],
+  edward: ['ed', 'eddie', 'ted', 'ned'],
+  elizabeth: ['liz', 'beth', 'lizzie', 'betty', 'eliza'],
+  emily: ['em', 'emmy'],
+  frances: ['fran', 'frankie'],
+  francis: ['frank'],
+  frederick: ['fred', 'freddie'],
+  gabriel: ['gabe'],
+  gerald: ['gerry', 'jerry'],
+  gregory: ['greg'],
+  harold: ['hal', 'harry'],
+  henry: ['hank', 'harry'],
+  isabella: ['bella', 'izzy'],
+  jacob: ['jake'],
+  james: ['jim', 'jimmy', 'jamie'],
+  jeffrey: ['jeff'],
+  jennifer: ['jen', 'jenny'],
+  jessica: ['jess', 'jessie'],
+  john: ['jack', 'johnny'],
+  jonathan: ['jon', 'jonny'],
+  joseph: ['joe', 'joey'],
+  joshua: ['josh'],
+  katherine: ['kate', 'kathy', 'katie', 'kat'],
+  kenneth: ['ken', 'kenny'],
+  lawrence: ['larry'],
+  leonard: ['leo', 'len', 'lenny'],
+  margaret: ['maggie', 'meg', 'peggy', 'marge'],
+  matthew: ['matt'],
+  michael: ['mike', 'mick', 'mikey'],
+  nathan: ['nate'],
+  nathaniel: ['nate', 'nat'],
+  nicholas: ['nick', 'nicky'],
+  nicole: ['nikki', 'nicky'],
+  patricia: ['pat', 'patty', 'trish'],
+  patrick: ['pat', 'paddy'],
+  peter: ['pete'],
+  philip: ['phil'],
+  rebecca: ['becky', 'becca'],
+  richard: ['rick', 'rich', 'dick', 'richie'],
+  robert: ['bob', 'rob', 'bobby', 'robbie', 'bert'],
+  ronald: ['ron', 'ronnie'],
+  samantha: ['sam', 'sammy'],
+  samuel: ['sam', 'sammy'],
+  stephen: ['steve'],
+  steven: ['steve'],
+  susan: ['sue', 'susie'],
+  theodore: ['ted', 'teddy', 'theo'],
+  thomas: ['tom', 'tommy'],
+  timothy: ['tim', 'timmy'],
+  victoria: ['vicky', 'tori'],
+  vincent: ['vince', 'vinny'],
+  walter: ['walt', 'wally'],
+  william: ['bill', 'will', 'billy', 'liam', 'willy'],
+  zachary: ['zach', 'zack'],
+};
@@ -0,0 +1,55 @@
+// Bundled role (non-personal) mailbox local parts. Extend at runtime with ROLE_ACCOUNTS_FILE.
+export const roleAccounts: string[] = [
+  'abuse',
+  'accounting',
+  'accounts',
+  'admin',
+  'administrator',
+  'billing',
+  'bookings',
+  'careers',
+  'ceo',
+  'contact',
+  'customercare',
+  'customerservice',
+  'dev',
+  'enquiries',
+  'enquiry',
+  'feedback',
+  'finance',
+  'hello',
+  'help',
+  'helpdesk',
+  'hi',
+  'hostmaster',
+  'hr',
+  'info',
+  'inquiries',
+  'inquiry',
+  'it',
+  'jobs',
+  'legal',
+  'mail',
+  'marketing',
+  'media',
+  'news',
+  'newsletter',
+  'no-reply',
+  'noreply',
+  'office',
+  'orders',
+  'partners',
+  'postmaster',
+  'press',
+  'privacy',
+  'recruiting',
+  'recruitment',
+  'reservations',
+  'root',
+  'sales',
+  'security',
+  'service',
+  'support',
+  'team',
+  'webmaster',
+];
@@ -0,0 +1,134 @@
+// Bundled common surnames (US and UK), used to tell plausible name splits from arbitrary ones
+export const surnames: string[] = [
+  'adams',
+  'allen',
+  'anderson',
+  'bailey',
+  'baker',
+  'barnes',
+  'bell',
+  'bennett',
+  'brooks',
+  'brown',
+  'bryant',
+  'butler',
+  'campbell',
+  'carter',
+  'castillo',
+  'chavez',
+  'clark',
+  'collins',
+  'cook',
+  'cooper',
+  'cox',
+  'cruz',
+  'davis',
+  'diaz',
+  'edwards',
+  'evans',
+  'fisher',
+  'flores',
+  'ford',
+  'foster',
+  'garcia',
+  'gibson',
+  'gomez',
+  'gonzalez',
+  'gordon',
+  'graham',
+  'gray',
+  'green',
+  'griffin',
+  'gutierrez',
+  'hall',
+  'hamilton',
+  'harris',
+  'hayes',
+  'henderson',
+  'hernandez',
+  'hill',
+  'howard',
+  'hughes',
+  'jackson',
+  'james',
+  'jenkins',
+  'jimenez',
+  'johnson',
+  'jones',
+  'jordan',
+  'kelly',
+  'kennedy',
+  'kim',
+  'king',
+  'lee',
+  'lewis',
+  'long',
+  'lopez',
+  'marshall',
+  'martin',
+  'martinez',
+  'mcdonald',
+  'mendoza',
+  'meyer',
+  'miller',
+  'mitchell',
+  'moore',
+  'morales',
+  'morgan',
+  'morris',
+  'murphy',
+  'myers',
+  'nelson',
+  'nguyen',
+  'ortiz',
+  'owens',
+  'parker',
+  'patel',
+  'patterson',
+  'perez',
+  'perry',
+  'peterson',
+  'phillips',
+  'powell',
+  'price',
+  'ramirez',
+  'ramos',
+  'reed',
+  'reyes',
+  'reynolds',
+  'richardson',
+  'rivera',
+  'roberts',
+  'robinson',
+  'rodriguez',
+  'rogers',
+  'ross',
+  'russell',
+  'sanchez',
+  'sanders',
+  'schmidt',
+  'scott',
+  'shaw',
+  'simmons',
+  'smith',
+  'stewart',
+  'sullivan',
+  'taylor',
+  'thomas',
+  'thompson',
+  'torres',
+  'turner',
+  'walker',
+  'wallace',
+  'ward',
+  'washington',
+  'watson',
+  'west',
+  'white',
+  'williams',
+  'wilson',
+  'wood',
+  'woods',
+  'wright',
+  'young',
+];
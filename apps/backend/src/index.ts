@@ -9,7 +9,15 @@ import { clerkPlugin } from '@clerk/fastify';
 import { emailRoutes } from './routes/email';
 import { authRoutes } from './routes/auth';
 import { apiKeyRoutes } from './routes/apiKeys';
+import { bulkRoutes } from './routes/bulk';
+import { adminRoutes } from './routes/admin';
+import { bulkJobService } from './services/bulkJobs';
+import { deferredValidationService } from './services/deferredValidation';
+import { smtpIdentityPool } from './services/smtpIdentityPool';
+import { mxProviderService } from './services/mxProvider';
+import { emailClassificationService } from './services/emailClassification';
 import { db } from './config/database';
+import { loadBackgroundConfig } from './config/background';
 
 const fastify = Fastify({
   logger: {
@@ -67,10 +75,16 @@ async function registerRoutes() {
   await fastify.register(authRoutes, { prefix: '/api/auth' });
   await fastify.register(apiKeyRoutes, { prefix: '/api/api-keys' });
   await fastify.register(emailRoutes, { prefix: '/api/email' });
+  await fastify.register(bulkRoutes, { prefix: '/api/email/bulk' });
+  await fastify.register(adminRoutes, { prefix: '/api/admin' });
 
   // Health check
   fastify.get('/health', async (request, reply) => {
-    return { status: 'ok', timestamp: new Date().toISOString() };
+    return {
+      status: 'ok',
+      timestamp: new Date().toISOString(),
+      smtpIdentities: smtpIdentityPool.getHealth(),
+    };
   });
 }
 
@@ -113,6 +127,21 @@ async function start() {
     await fastify.listen({ port, host });
     
     fastify.log.info(`Server listening on http://${host}:${port}`);
+
+    // With BACKGROUND_JOBS=worker, bulk jobs and re-checks run in src/worker.ts instead
+    if (loadBackgroundConfig().mode === 'in-process') {
+      // Pick up queued bulk jobs, and ones interrupted by a previous shutdown once their lease expires
+      bulkJobService.start();
+
+      // Re-check greylisted validations once their back-off window has passed
+      deferredValidationService.start();
+    }
+
+    // Load MX provider rules from the database and keep them in sync with admin edits
+    mxProviderService.start();
+
+    // Re-read the classification list files periodically
+    emailClassificationService.start();
   } catch (err) {
     fastify.log.error(err);
     process.exit(1);
@@ -122,12 +151,20 @@ async function start() {
 // Graceful shutdown
 process.on('SIGINT', async () => {
   fastify.log.info('Received SIGINT, shutting down gracefully');
+  bulkJobService.stop();
+  deferredValidationService.stop();
+  mxProviderService.stop();
+  emailClassificationService.stop();
   await fastify.close();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   fastify.log.info('Received SIGTERM, shutting down gracefully');
+  bulkJobService.stop();
+  deferredValidationService.stop();
+  mxProviderService.stop();
+  emailClassificationService.stop();
   await fastify.close();
   process.exit(0);
 });
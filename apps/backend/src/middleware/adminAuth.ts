@@ -0,0 +1,25 @@
+import { FastifyRequest, FastifyReply } from 'fastify';
+
+// Admins are the users listed in ADMIN_USER_IDS (comma-separated)
+const getAdminUserIds = (): string[] => (process.env['ADMIN_USER_IDS'] || '')
+  .split(',')
+  .map(id => id.trim())
+  .filter(Boolean);
+
+export async function adminAuth(request: FastifyRequest, reply: FastifyReply) {
+  try {
+    await request.jwtVerify();
+  } catch (err) {
+    reply.send(err);
+    return;
+  }
+
+  const user = request.user as any;
+  if (!user?.userId || !getAdminUserIds().includes(user.userId)) {
+    reply.status(403).send({
+      error: 'Forbidden',
+      message: 'Admin access required',
+    });
+    return;
+  }
+}
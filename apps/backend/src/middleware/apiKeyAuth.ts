@@ -4,6 +4,7 @@ import { db } from '../config/database';
 import { apiKeys } from '../config/schema';
 import { eq, and, gt } from 'drizzle-orm';
 import { cacheService } from '../services/cache';
+import { VerificationProviderSetting } from '../services/verificationProviders';
 
 export interface AuthenticatedRequest extends FastifyRequest {
   apiKey?: {
@@ -13,6 +14,7 @@ export interface AuthenticatedRequest extends FastifyRequest {
     keyPrefix: string;
     isActive: boolean;
     expiresAt?: Date;
+    verificationProviders?: VerificationProviderSetting[] | null;
   };
 }
 
@@ -125,7 +127,9 @@ export async function rateLimitMiddleware(request: AuthenticatedRequest, reply:
     // Set rate limits based on endpoint
     let maxRequests = 100; // Default limit
 
-    if (endpoint.includes('/email/find')) {
+    if (endpoint.includes('/email/bulk') && request.method === 'POST') {
+      maxRequests = 5; // Bulk uploads are expensive
+    } else if (endpoint.includes('/email/find')) {
       maxRequests = 10; // Lower limit for email finding
     } else if (endpoint.includes('/email/validate')) {
       maxRequests = 50; // Medium limit for validation
@@ -0,0 +1,316 @@
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { eq } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from '../config/database';
+import { mxProviderRules } from '../config/schema';
+import { adminAuth } from '../middleware/adminAuth';
+import { compileMxProviderRule, mxProviderService } from '../services/mxProvider';
+import { emailClassificationService } from '../services/emailClassification';
+
+const MxProviderRuleFields = z.object({
+  provider: z.string().min(1).max(100),
+  matchType: z.enum(['exact', 'suffix', 'regex']),
+  pattern: z.string().min(1).max(255),
+  priority: z.number().int().min(0).max(1000).default(100),
+  isActive: z.boolean().default(true),
+});
+
+const CreateMxProviderRuleRequest = MxProviderRuleFields.extend({
+  id: z.string().regex(/^[a-z0-9-]+$/).max(191).optional(),
+});
+
+const UpdateMxProviderRuleRequest = MxProviderRuleFields.partial();
+
+const MatchMxProviderRequest = z.object({
+  host: z.string().min(1).max(255),
+});
+
+const mxProviderRuleSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    provider: { type: 'string' },
+    matchType: { type: 'string' },
+    pattern: { type: 'string' },
+    priority: { type: 'number' },
+    isActive: { type: 'boolean' },
+    createdAt: { type: 'string' },
+    updatedAt: { type: 'string' },
+  },
+};
+
+type MxProviderRuleRow = typeof mxProviderRules.$inferSelect;
+
+// Rejects regex rules that do not compile before they reach the table
+const assertCompiles = (rule: Pick<MxProviderRuleRow, 'id' | 'provider' | 'matchType' | 'pattern' | 'priority'>) => {
+  try {
+    compileMxProviderRule({ ...rule, matchType: rule.matchType as 'exact' | 'suffix' | 'regex' });
+  } catch (error) {
+    throw new Error(`Invalid pattern: ${error instanceof Error ? error.message : error}`);
+  }
+};
+
+const serializeRule = (rule: MxProviderRuleRow) => ({
+  ...rule,
+  createdAt: rule.createdAt.toISOString(),
+  updatedAt: rule.updatedAt.toISOString(),
+});
+
+export async function adminRoutes(fastify: FastifyInstance) {
+  // List MX provider rules, including inactive ones
+  fastify.get('/mx-provider-rules', {
+    preHandler: adminAuth,
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            rules: { type: 'array', items: mxProviderRuleSchema },
+          },
+        },
+      },
+    },
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const rules = await db.query.mxProviderRules.findMany({
+        orderBy: (rules, { asc }) => [asc(rules.priority), asc(rules.id)],
+      });
+
+      reply.send({
+        rules: rules.map(serializeRule),
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: 'Failed to fetch MX provider rules',
+      });
+    }
+  });
+
+  // Create an MX provider rule
+  fastify.post('/mx-provider-rules', {
+    preHandler: adminAuth,
+    schema: {
+      body: CreateMxProviderRuleRequest,
+      response: {
+        201: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            rule: mxProviderRuleSchema,
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const body = CreateMxProviderRuleRequest.parse(request.body);
+      const id = body.id ?? nanoid();
+      assertCompiles({ ...body, id });
+
+      const existing = await db.query.mxProviderRules.findFirst({
+        where: (rules, { eq }) => eq(rules.id, id),
+      });
+      if (existing) {
+        reply.status(409).send({
+          error: 'Conflict',
+          message: `MX provider rule ${id} already exists`,
+        });
+        return;
+      }
+
+      const now = new Date();
+      const [rule] = await db.insert(mxProviderRules)
+        .values({ ...body, id, createdAt: now, updatedAt: now })
+        .returning();
+
+      // Apply immediately in this instance; others pick it up on their next poll
+      await mxProviderService.reload();
+
+      reply.status(201).send({
+        message: 'MX provider rule created successfully',
+        rule: rule ? serializeRule(rule) : undefined,
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Update an MX provider rule
+  fastify.patch('/mx-provider-rules/:id', {
+    preHandler: adminAuth,
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      body: UpdateMxProviderRuleRequest,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+            rule: mxProviderRuleSchema,
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const body = UpdateMxProviderRuleRequest.parse(request.body);
+
+      const existing = await db.query.mxProviderRules.findFirst({
+        where: (rules, { eq }) => eq(rules.id, id),
+      });
+      if (!existing) {
+        reply.status(404).send({
+          error: 'Not found',
+          message: 'MX provider rule not found',
+        });
+        return;
+      }
+
+      // Only the fields present in the request are changed
+      const updates = Object.fromEntries(
+        Object.entries(body).filter(([, value]) => value !== undefined)
+      ) as Partial<MxProviderRuleRow>;
+      assertCompiles({ ...existing, ...updates });
+
+      const [rule] = await db.update(mxProviderRules)
+        .set({ ...updates, updatedAt: new Date() })
+        .where(eq(mxProviderRules.id, id))
+        .returning();
+
+      await mxProviderService.reload();
+
+      reply.send({
+        message: 'MX provider rule updated successfully',
+        rule: rule ? serializeRule(rule) : undefined,
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Delete an MX provider rule
+  fastify.delete('/mx-provider-rules/:id', {
+    preHandler: adminAuth,
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            message: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const deleted = await db.delete(mxProviderRules)
+        .where(eq(mxProviderRules.id, id))
+        .returning({ id: mxProviderRules.id });
+      if (deleted.length === 0) {
+        reply.status(404).send({
+          error: 'Not found',
+          message: 'MX provider rule not found',
+        });
+        return;
+      }
+
+      await mxProviderService.reload();
+
+      reply.send({
+        message: 'MX provider rule deleted successfully',
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: 'Failed to delete MX provider rule',
+      });
+    }
+  });
+
+  // Show which loaded rule, if any, matches an MX host name
+  fastify.post('/mx-provider-rules/match', {
+    preHandler: adminAuth,
+    schema: {
+      body: MatchMxProviderRequest,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            host: { type: 'string' },
+            provider: { type: 'string' },
+            ruleId: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const { host } = MatchMxProviderRequest.parse(request.body);
+      const match = mxProviderService.match(host);
+
+      reply.send({
+        host,
+        provider: match?.provider,
+        ruleId: match?.ruleId,
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Re-read the classification list files now instead of at the next refresh
+  fastify.post('/classification-lists/reload', {
+    preHandler: adminAuth,
+    schema: {
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            disposable: { type: 'number' },
+            free: { type: 'number' },
+            roles: { type: 'number' },
+          },
+        },
+      },
+    },
+  }, async (_request: FastifyRequest, reply: FastifyReply) => {
+    reply.send(emailClassificationService.reload());
+  });
+}
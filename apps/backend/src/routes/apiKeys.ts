@@ -4,17 +4,48 @@ import { nanoid } from 'nanoid';
 import bcrypt from 'bcryptjs';
 import { db } from '../config/database';
 import { apiKeys } from '../config/schema';
+import { cacheService } from '../services/cache';
+import { VerificationProviderSettings, verificationRegistry } from '../services/verificationProviders';
+
+// Only providers configured on this server can be assigned to a key
+const KeyVerificationProviders = VerificationProviderSettings.superRefine((settings, ctx) => {
+  settings.forEach((setting, index) => {
+    if (!verificationRegistry.has(setting.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [index, 'id'],
+        message: `Unknown verification provider: ${setting.id} (available: ${verificationRegistry.list().join(', ') || 'none'})`,
+      });
+    }
+  });
+});
 
 const CreateApiKeyRequest = z.object({
   name: z.string().min(1).max(100),
   expiresAt: z.string().datetime().optional(),
+  verificationProviders: KeyVerificationProviders.optional(),
 });
 
 const UpdateApiKeyRequest = z.object({
   name: z.string().min(1).max(100).optional(),
   isActive: z.boolean().optional(),
+  // null goes back to the server default
+  verificationProviders: KeyVerificationProviders.nullable().optional(),
 });
 
+// Per-key verification provider list, as returned by every endpoint
+const verificationProvidersSchema = {
+  type: 'array',
+  nullable: true,
+  items: {
+    type: 'object',
+    properties: {
+      id: { type: 'string' },
+      timeoutMs: { type: 'number' },
+    },
+  },
+};
+
 export async function apiKeyRoutes(fastify: FastifyInstance) {
   // Create API key
   fastify.post('/', {
@@ -40,6 +71,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
                 key: { type: 'string' },
                 keyPrefix: { type: 'string' },
                 expiresAt: { type: 'string' },
+                verificationProviders: verificationProvidersSchema,
                 createdAt: { type: 'string' },
               },
             },
@@ -73,6 +105,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
         keyHash,
         keyPrefix,
         expiresAt,
+        verificationProviders: body.verificationProviders ?? null,
         createdAt: new Date(),
         updatedAt: new Date(),
       });
@@ -85,6 +118,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
           key: fullKey, // Only returned once
           keyPrefix,
           expiresAt: expiresAt?.toISOString(),
+          verificationProviders: body.verificationProviders ?? null,
           createdAt: new Date().toISOString(),
         },
       });
@@ -123,6 +157,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
                   isActive: { type: 'boolean' },
                   lastUsedAt: { type: 'string' },
                   expiresAt: { type: 'string' },
+                  verificationProviders: verificationProvidersSchema,
                   createdAt: { type: 'string' },
                 },
               },
@@ -147,6 +182,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
         isActive: key.isActive,
         lastUsedAt: key.lastUsedAt?.toISOString(),
         expiresAt: key.expiresAt?.toISOString(),
+        verificationProviders: key.verificationProviders,
         createdAt: key.createdAt.toISOString(),
       }));
 
@@ -195,6 +231,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
                 isActive: { type: 'boolean' },
                 lastUsedAt: { type: 'string' },
                 expiresAt: { type: 'string' },
+                verificationProviders: verificationProvidersSchema,
                 createdAt: { type: 'string' },
                 updatedAt: { type: 'string' },
               },
@@ -238,9 +275,15 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
         updateData.isActive = body.isActive;
       }
 
+      if (body.verificationProviders !== undefined) {
+        updateData.verificationProviders = body.verificationProviders;
+      }
+
       await db.update(apiKeys)
         .set(updateData)
         .where((keys, { eq }) => eq(keys.id, id));
+      // apiKeyAuth caches keys; drop the copy so the change applies to the next request
+      await cacheService.del(`api_key:${id}`);
 
       // Fetch updated key
       const updatedKey = await db.query.apiKeys.findFirst({
@@ -256,6 +299,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
           isActive: updatedKey!.isActive,
           lastUsedAt: updatedKey!.lastUsedAt?.toISOString(),
           expiresAt: updatedKey!.expiresAt?.toISOString(),
+          verificationProviders: updatedKey!.verificationProviders,
           createdAt: updatedKey!.createdAt.toISOString(),
           updatedAt: updatedKey!.updatedAt.toISOString(),
         },
@@ -319,6 +363,7 @@ export async function apiKeyRoutes(fastify: FastifyInstance) {
 
       // Delete API key
       await db.delete(apiKeys).where((keys, { eq }) => eq(keys.id, id));
+      await cacheService.del(`api_key:${id}`);
 
       reply.send({
         message: 'API key deleted successfully',
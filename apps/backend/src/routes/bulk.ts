@@ -0,0 +1,229 @@
+import { FastifyInstance, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { apiKeyAuth, rateLimitMiddleware, AuthenticatedRequest } from '../middleware/apiKeyAuth';
+import { bulkJobService, BulkJobOptions } from '../services/bulkJobs';
+
+const MAX_UPLOAD_BYTES = 5 * 1024 * 1024; // 5 MB
+
+const queryBoolean = z.enum(['true', 'false']).transform(value => value === 'true');
+
+const BulkJobQuery = z.object({
+  validateEmails: queryBoolean.optional(),
+  maxCandidates: z.coerce.number().optional(),
+  timeout: z.coerce.number().optional(),
+});
+
+const BulkResultsQuery = z.object({
+  format: z.enum(['csv', 'json']).default('csv'),
+});
+
+export async function bulkRoutes(fastify: FastifyInstance) {
+  // Upload a CSV of leads and start a bulk job
+  fastify.post('/', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      querystring: {
+        type: 'object',
+        properties: {
+          validateEmails: { type: 'string' },
+          maxCandidates: { type: 'string' },
+          timeout: { type: 'string' },
+        },
+      },
+      response: {
+        202: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string' },
+            status: { type: 'string' },
+            totalRows: { type: 'number' },
+            invalidRows: { type: 'number' },
+            statusUrl: { type: 'string' },
+            resultsUrl: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const query = BulkJobQuery.parse(request.query);
+      const options = BulkJobOptions.parse(Object.fromEntries(
+        Object.entries(query).filter(([, value]) => value !== undefined)
+      ));
+
+      const file = await request.file({ limits: { fileSize: MAX_UPLOAD_BYTES, files: 1 } });
+      if (!file) {
+        reply.status(400).send({
+          error: 'Invalid request',
+          message: 'A CSV file is required',
+        });
+        return;
+      }
+
+      const content = (await file.toBuffer()).toString('utf8');
+      const leads = bulkJobService.parseLeads(content);
+      const jobId = await bulkJobService.createJob(request.apiKey!.id, leads, options, file.filename);
+
+      reply.status(202).send({
+        jobId,
+        status: 'queued',
+        totalRows: leads.length,
+        invalidRows: leads.filter(lead => lead.error).length,
+        statusUrl: `/api/email/bulk/${jobId}`,
+        resultsUrl: `/api/email/bulk/${jobId}/results`,
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Get job status and progress
+  fastify.get('/:id', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            jobId: { type: 'string' },
+            fileName: { type: 'string' },
+            status: { type: 'string' },
+            totalRows: { type: 'number' },
+            processedRows: { type: 'number' },
+            foundRows: { type: 'number' },
+            failedRows: { type: 'number' },
+            progress: { type: 'number' },
+            error: { type: 'string' },
+            createdAt: { type: 'string' },
+            startedAt: { type: 'string' },
+            completedAt: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      const job = await bulkJobService.getJob(id, request.apiKey!.id);
+      if (!job) {
+        reply.status(404).send({
+          error: 'Not found',
+          message: 'Bulk job not found',
+        });
+        return;
+      }
+
+      reply.send({
+        jobId: job.id,
+        fileName: job.fileName ?? undefined,
+        status: job.status,
+        totalRows: job.totalRows,
+        processedRows: job.processedRows,
+        foundRows: job.foundRows,
+        failedRows: job.failedRows,
+        progress: job.totalRows > 0 ? Math.round((job.processedRows / job.totalRows) * 100) : 100,
+        error: job.error ?? undefined,
+        createdAt: job.createdAt.toISOString(),
+        startedAt: job.startedAt?.toISOString(),
+        completedAt: job.completedAt?.toISOString(),
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: 'Failed to fetch bulk job',
+      });
+    }
+  });
+
+  // Download job results
+  fastify.get('/:id/results', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      querystring: {
+        type: 'object',
+        properties: {
+          format: { type: 'string', enum: ['csv', 'json'], default: 'csv' },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+      const { format } = BulkResultsQuery.parse(request.query);
+
+      const job = await bulkJobService.getJob(id, request.apiKey!.id);
+      if (!job) {
+        reply.status(404).send({
+          error: 'Not found',
+          message: 'Bulk job not found',
+        });
+        return;
+      }
+
+      if (job.status !== 'completed') {
+        reply.status(409).send({
+          error: 'Conflict',
+          message: `Bulk job is ${job.status}, results are available once it has completed`,
+        });
+        return;
+      }
+
+      if (format === 'json') {
+        const rows = await bulkJobService.getRows(id);
+        reply.send({
+          jobId: job.id,
+          results: rows.map(row => ({
+            rowIndex: row.rowIndex,
+            firstName: row.firstName,
+            lastName: row.lastName,
+            domain: row.domain,
+            companyName: row.companyName,
+            status: row.status,
+            email: row.email,
+            pattern: row.pattern,
+            confidence: row.confidence,
+            isCatchAll: row.isCatchAll,
+            candidatesChecked: row.candidatesChecked,
+            error: row.error,
+          })),
+        });
+        return;
+      }
+
+      const csv = await bulkJobService.exportCsv(id);
+      reply
+        .header('Content-Type', 'text/csv; charset=utf-8')
+        .header('Content-Disposition', `attachment; filename="bulk-${job.id}.csv"`)
+        .send(csv);
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+}
@@ -1,37 +1,205 @@
-import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { FastifyInstance, FastifyReply } from 'fastify';
 import { z } from 'zod';
-import { EmailPatternService } from '../services/emailPatterns';
-import { EmailValidationService } from '../services/emailValidation';
-import { LinkedInVerificationService } from '../services/linkedinVerification';
+import { EmailPattern, EmailPatternService } from '../services/emailPatterns';
+import { PatternTemplateInput } from '../services/patternTemplate';
+import { EmailValidationResult, EmailValidationService } from '../services/emailValidation';
+import { combineWithPatternPrior, ConfidenceFactor, ConfidenceScore } from '../services/confidenceScoring';
+import {
+  applyVerificationEvidence,
+  linkedinVerified,
+  selectVerificationProviders,
+  verificationRegistry,
+} from '../services/verificationProviders';
+import { deliverability } from '../services/deliverabilityStatus';
 import { db } from '../config/database';
-import { emailValidations } from '../config/schema';
-import { nanoid } from 'nanoid';
 import { apiKeyAuth, rateLimitMiddleware, AuthenticatedRequest } from '../middleware/apiKeyAuth';
 import { cacheService } from '../services/cache';
+import { deferredValidationService } from '../services/deferredValidation';
+import { parseEmailAddress, toAsciiDomain } from '../services/emailSyntax';
+import { domainTypoService } from '../services/domainTypo';
+import { domainIntelligenceService } from '../services/domainIntelligence';
+import { CompanyFindInput, companyFindService } from '../services/companyFind';
+import { emailClassificationService } from '../services/emailClassification';
 
 const EmailFindRequest = z.object({
-  domain: z.string().email().transform(email => email.split('@')[1]),
+  // A bare domain or any address at it; internationalized domains are converted to punycode
+  domain: z.string().transform((value, ctx) => {
+    const domain = toAsciiDomain(value);
+    if (!domain) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid domain: ${value}` });
+      return z.NEVER;
+    }
+    return domain;
+  }),
   firstName: z.string().min(1).max(50),
+  middleName: z.string().max(50).optional(),
   lastName: z.string().min(1).max(50),
   companyName: z.string().optional(),
-  customPatterns: z.array(z.string()).optional(),
+  // Templates such as "{first}.{last}" or "{f}{last}"; see POST /patterns/preview
+  customPatterns: z.array(PatternTemplateInput).max(20).optional(),
+  // Also try "Bill" for "William" and vice versa, at slightly lower confidence
+  expandNicknames: z.boolean().default(false),
+  // 'ranked' probes candidates in confidence order and stops at the first deliverable one
+  strategy: z.enum(['exhaustive', 'ranked']).default('exhaustive'),
   validateEmails: z.boolean().default(true),
+  // Run the API key's verification providers on deliverable candidates
+  verify: z.boolean().default(false),
+  // Run only the LinkedIn provider
   checkLinkedIn: z.boolean().default(false),
   timeout: z.number().min(1000).max(30000).default(5000),
 });
 
+const PatternPreviewRequest = z.object({
+  // Checked one by one, so a bad template is reported next to the good ones
+  templates: z.array(z.string()).min(1).max(20),
+  firstName: z.string().min(1).max(50),
+  lastName: z.string().min(1).max(50),
+  middleName: z.string().max(50).optional(),
+  domain: z.string().optional().transform((value, ctx) => {
+    if (value === undefined) {
+      return undefined;
+    }
+    const domain = toAsciiDomain(value);
+    if (!domain) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid domain: ${value}` });
+      return z.NEVER;
+    }
+    return domain;
+  }),
+});
+
+const PatternInferRequest = z.object({
+  domain: z.string().transform((value, ctx) => {
+    const domain = toAsciiDomain(value);
+    if (!domain) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid domain: ${value}` });
+      return z.NEVER;
+    }
+    return domain;
+  }),
+  // Real addresses at the domain, with the names of their owners
+  samples: z.array(z.object({
+    email: z.string().trim().min(3).max(320),
+    firstName: z.string().min(1).max(50),
+    middleName: z.string().max(50).optional(),
+    lastName: z.string().min(1).max(50),
+  })).min(1).max(20),
+  // New names to generate addresses for with the inferred patterns
+  people: z.array(z.object({
+    firstName: z.string().min(1).max(50),
+    middleName: z.string().max(50).optional(),
+    lastName: z.string().min(1).max(50),
+  })).max(50).default([]),
+  timeout: z.number().min(1000).max(30000).default(5000),
+}).superRefine((body, ctx) => {
+  body.samples.forEach((sample, index) => {
+    if (toAsciiDomain(sample.email) !== body.domain) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['samples', index, 'email'],
+        message: `${sample.email} is not an address at ${body.domain}`,
+      });
+    }
+  });
+});
+
+const EmailParseRequest = z.object({
+  email: z.string().trim().min(1).max(320),
+});
+
 const EmailValidateRequest = z.object({
-  email: z.string().email(),
+  // Syntax is checked by the validation service, which reports detailed reasons
+  email: z.string().trim().min(1).max(320),
   validateSmtp: z.boolean().default(true),
   checkCatchAll: z.boolean().default(true),
+  // Run the API key's verification providers on a deliverable address
+  verify: z.boolean().default(false),
+  // Run only the LinkedIn provider
   checkLinkedIn: z.boolean().default(false),
   timeout: z.number().min(1000).max(30000).default(5000),
 });
 
+// Factors behind a confidence score
+const explanationSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      factor: { type: 'string' },
+      contribution: { type: 'number' },
+      detail: { type: 'string' },
+    },
+  },
+};
+
+// Findings of external verification providers
+const verificationSchema = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      provider: { type: 'string' },
+      status: { type: 'string' },
+      contribution: { type: 'number' },
+      detail: { type: 'string' },
+      data: { type: 'object', additionalProperties: true },
+      durationMs: { type: 'number' },
+    },
+  },
+};
+
+// A generated candidate with its validation, as returned by /find
+const findResultSchema = {
+  type: 'object',
+  properties: {
+    pattern: { type: 'string' },
+    type: { type: 'string' },
+    confidence: { type: 'number' },
+    explanation: explanationSchema,
+    example: { type: 'string' },
+    nameVariant: {
+      type: 'object',
+      properties: {
+        field: { type: 'string' },
+        value: { type: 'string' },
+        origin: { type: 'string' },
+      },
+    },
+    learned: {
+      type: 'object',
+      properties: {
+        scope: { type: 'string' },
+        successCount: { type: 'number' },
+        attemptCount: { type: 'number' },
+      },
+    },
+    validation: {
+      type: 'object',
+      properties: {
+        isValid: { type: 'boolean' },
+        status: { type: 'string' },
+        reason: { type: 'string' },
+        isCatchAll: { type: 'boolean' },
+        isDisposable: { type: 'boolean' },
+        isFreeProvider: { type: 'boolean' },
+        isRoleAccount: { type: 'boolean' },
+        isDeferred: { type: 'boolean' },
+        mxRecords: { type: 'array' },
+        mxProvider: { type: 'string' },
+        mxProviderRuleId: { type: 'string' },
+        dnsOutcome: { type: 'string' },
+        confidence: { type: 'number' },
+        explanation: explanationSchema,
+        verification: verificationSchema,
+        linkedinVerified: { type: 'boolean' },
+      },
+    },
+  },
+};
+
 export async function emailRoutes(fastify: FastifyInstance) {
   const patternService = new EmailPatternService();
   const validationService = new EmailValidationService();
-  const linkedinService = new LinkedInVerificationService();
 
   // Find email patterns for a domain
   fastify.post('/find', {
@@ -43,28 +211,27 @@ export async function emailRoutes(fastify: FastifyInstance) {
           type: 'object',
           properties: {
             domain: { type: 'string' },
+            domainProfile: {
+              type: 'object',
+              properties: {
+                isCatchAll: { type: ['boolean', 'null'] },
+                mxProvider: { type: 'string' },
+                mxProviderRuleId: { type: 'string' },
+                dnsOutcome: { type: 'string' },
+                probedAt: { type: 'string' },
+                expiresAt: { type: 'string' },
+              },
+            },
+            strategy: { type: 'string' },
+            bestMatch: { ...findResultSchema, nullable: true },
             patterns: {
               type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  pattern: { type: 'string' },
-                  type: { type: 'string' },
-                  confidence: { type: 'number' },
-                  example: { type: 'string' },
-                  validation: {
-                    type: 'object',
-                    properties: {
-                      isValid: { type: 'boolean' },
-                      isCatchAll: { type: 'boolean' },
-                      mxRecords: { type: 'array' },
-                      mxProvider: { type: 'string' },
-                      confidence: { type: 'number' },
-                      linkedinVerified: { type: 'boolean' },
-                    },
-                  },
-                },
-              },
+              items: findResultSchema,
+            },
+            // Candidates the ranked strategy never asked about
+            skipped: {
+              type: 'array',
+              items: { type: 'string' },
             },
           },
         },
@@ -73,89 +240,150 @@ export async function emailRoutes(fastify: FastifyInstance) {
   }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
       const body = EmailFindRequest.parse(request.body);
-      const { domain, firstName, lastName, companyName, customPatterns, validateEmails, checkLinkedIn, timeout } = body;
+      const {
+        domain,
+        firstName,
+        middleName,
+        lastName,
+        companyName,
+        customPatterns,
+        expandNicknames,
+        strategy,
+        validateEmails,
+        verify,
+        checkLinkedIn,
+        timeout,
+      } = body;
+      const verificationProviders = selectVerificationProviders(request.apiKey?.verificationProviders, { verify, checkLinkedIn });
 
       // Generate email patterns
-      const patterns = patternService.generatePatterns({
+      const patterns = await patternService.generatePatterns({
         domain,
         firstName,
+        middleName,
         lastName,
         companyName,
         customPatterns,
+        expandNicknames,
       });
 
-      // Validate emails if requested
-      const results = await Promise.allSettled(
-        patterns.map(async (pattern) => {
-          const result = { ...pattern, validation: null };
+      // Probe the domain once; every candidate below reuses this profile
+      const domainProfile = validateEmails
+        ? await validationService.getDomainProfile(domain, { timeout, probeCatchAll: true }).catch(() => null)
+        : null;
+
+      // External verification, storage, deferred re-check and pattern learning for one verdict
+      const recordValidation = async (pattern: EmailPattern, checked: EmailValidationResult) => {
+        // A verdict on a generated address also weighs how likely its pattern is
+        let validation = combineWithPatternPrior(checked, pattern);
+
+        if (verificationProviders.length > 0 && validation.isValid) {
+          const evidence = await verificationRegistry.run(
+            { email: pattern.example, firstName, lastName, company: companyName },
+            verificationProviders
+          );
+          validation = applyVerificationEvidence(validation, evidence);
+          validation.linkedinVerified = linkedinVerified(evidence);
+        }
+
+        // Stored for /validations/:id; a deferred answer is re-checked later
+        await deferredValidationService.store(pattern.example, domain, validation, request.apiKey!.id);
+
+        await patternService.learnFromValidation(
+          { domain, firstName, middleName, lastName, email: pattern.example },
+          validation,
+          domainProfile?.isCatchAll ?? null
+        );
+
+        return validation;
+      };
+
+      let processedResults: Array<EmailPattern & { validation: EmailValidationResult | null }>;
+      const skipped: string[] = [];
+
+      if (validateEmails && strategy === 'ranked') {
+        // Candidates in confidence order over shared SMTP sessions, stopping at the first hit
+        const validations = await validationService.validateEmails({
+          emails: patterns.map(pattern => pattern.example),
+          checkCatchAll: true,
+          timeout,
+          stopOnValid: true,
+        });
+
+        processedResults = [];
+        for (const pattern of patterns) {
+          const validation = validations.get(pattern.example);
+          if (!validation) {
+            skipped.push(pattern.example);
+          }
+          processedResults.push({
+            ...pattern,
+            validation: validation ? await recordValidation(pattern, validation) : null,
+          });
+        }
+      } else {
+        // Validate emails if requested
+        const results = await Promise.allSettled(
+          patterns.map(async (pattern) => {
+            if (!validateEmails) {
+              return { ...pattern, validation: null };
+            }
 
-          if (validateEmails) {
             const validation = await validationService.validateEmail({
               email: pattern.example,
               validateSmtp: true,
               checkCatchAll: true,
               timeout,
             });
+            return { ...pattern, validation: await recordValidation(pattern, validation) };
+          })
+        );
 
-            // Check LinkedIn if requested
-            if (checkLinkedIn && validation.isValid) {
-              const linkedinResult = await linkedinService.verifyProfile({
-                email: pattern.example,
-                firstName,
-                lastName,
-                company: companyName,
-              });
-
-              validation.linkedinVerified = linkedinResult.verified;
-              if (linkedinResult.verified) {
-                validation.confidence += 15;
-              }
-            }
-
-            // Cache the validation result
-            await db.insert(emailValidations).values({
-              id: nanoid(),
-              email: pattern.example,
-              domain,
-              isValid: validation.isValid,
-              isCatchAll: validation.isCatchAll,
-              mxRecords: validation.mxRecords.map(r => r.exchange),
-              mxProvider: validation.mxProvider,
-              smtpResponse: validation.smtpResponse,
-              validationMethod: validation.validationMethod,
-              confidence: validation.confidence,
-              linkedinVerified: validation.linkedinVerified,
-              createdAt: new Date(),
-              expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
-            });
-
-            result.validation = validation;
+        processedResults = results.map((result, index) => {
+          if (result.status === 'fulfilled') {
+            return result.value;
+          } else {
+            return {
+              ...patterns[index]!,
+              validation: {
+                email: patterns[index]!.example,
+                isValid: false,
+                ...deliverability('smtp-unavailable'),
+                isCatchAll: false,
+                isDisposable: false,
+                isFreeProvider: false,
+                isRoleAccount: false,
+                mxRecords: [],
+                validationMethod: 'smtp' as const,
+                ...new ConfidenceScore().add('mail-host', 0, 'Validation did not complete').summary(),
+                errors: [result.reason?.message || 'Validation failed'],
+              },
+            };
           }
+        });
+      }
 
-          return result;
-        })
-      );
-
-      const processedResults = results.map((result, index) => {
-        if (result.status === 'fulfilled') {
-          return result.value;
-        } else {
-          return {
-            ...patterns[index],
-            validation: {
-              isValid: false,
-              isCatchAll: false,
-              mxRecords: [],
-              confidence: 0,
-              errors: [result.reason?.message || 'Validation failed'],
-            },
-          };
-        }
-      });
+      // Deliverable candidate with the highest verified confidence; the top guess when nothing was validated
+      const bestMatch = validateEmails
+        ? processedResults
+          .filter(result => result.validation?.isValid)
+          .sort((a, b) => (b.validation?.confidence ?? 0) - (a.validation?.confidence ?? 0))[0] ?? null
+        : processedResults[0] ?? null;
 
       return {
         domain,
+        domainProfile: domainProfile ? {
+          isCatchAll: domainProfile.isCatchAll,
+          mxProvider: domainProfile.mxProvider,
+          mxProviderRuleId: domainProfile.mxProviderRuleId,
+          dnsOutcome: domainProfile.dnsOutcome,
+          probedAt: domainProfile.probedAt,
+          expiresAt: domainProfile.expiresAt,
+        } : undefined,
+        strategy,
+        bestMatch,
         patterns: processedResults,
+        skipped,
       };
 
     } catch (error) {
@@ -167,6 +395,74 @@ export async function emailRoutes(fastify: FastifyInstance) {
     }
   });
 
+  // Find many people at one company, sharing the domain profile and the company's pattern
+  fastify.post('/find/batch', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      body: CompanyFindInput,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            domain: { type: 'string' },
+            domainProfile: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                isCatchAll: { type: ['boolean', 'null'] },
+                mxProvider: { type: 'string' },
+                mxProviderRuleId: { type: 'string' },
+                dnsOutcome: { type: 'string' },
+                probedAt: { type: 'string' },
+                expiresAt: { type: 'string' },
+              },
+            },
+            companyPattern: {
+              type: 'object',
+              nullable: true,
+              properties: {
+                pattern: { type: 'string' },
+                confirmedBy: { type: 'number' },
+              },
+            },
+            people: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  firstName: { type: 'string' },
+                  middleName: { type: 'string' },
+                  lastName: { type: 'string' },
+                  status: { type: 'string' },
+                  email: { type: 'string' },
+                  pattern: { type: 'string' },
+                  confidence: { type: 'number' },
+                  explanation: explanationSchema,
+                  deliverability: { type: 'string' },
+                  reason: { type: 'string' },
+                  verification: verificationSchema,
+                  candidatesChecked: { type: 'number' },
+                  usedCompanyPattern: { type: 'boolean' },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const input = CompanyFindInput.parse(request.body);
+      return await companyFindService.find(input, request.apiKey!);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
   // Validate a single email
   fastify.post('/validate', {
     preHandler: [apiKeyAuth, rateLimitMiddleware],
@@ -176,16 +472,74 @@ export async function emailRoutes(fastify: FastifyInstance) {
         200: {
           type: 'object',
           properties: {
+            validationId: { type: 'string' },
             email: { type: 'string' },
             isValid: { type: 'boolean' },
+            status: { type: 'string' },
+            reason: { type: 'string' },
             isCatchAll: { type: 'boolean' },
+            isDisposable: { type: 'boolean' },
+            isFreeProvider: { type: 'boolean' },
+            isRoleAccount: { type: 'boolean' },
+            isDeferred: { type: 'boolean' },
+            catchAllCheckedAt: { type: 'string' },
+            retryAt: { type: 'string' },
+            resultUrl: { type: 'string' },
             mxRecords: { type: 'array' },
             mxProvider: { type: 'string' },
+            mxProviderRuleId: { type: 'string' },
+            dnsOutcome: { type: 'string' },
             smtpResponse: { type: 'string' },
+            smtpIdentity: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                localAddress: { type: 'string' },
+                heloHostname: { type: 'string' },
+                mailFrom: { type: 'string' },
+              },
+            },
+            smtpStages: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  stage: { type: 'string' },
+                  command: { type: 'string' },
+                  code: { type: 'number' },
+                  text: { type: 'string' },
+                  durationMs: { type: 'number' },
+                  error: { type: 'string' },
+                },
+              },
+            },
             validationMethod: { type: 'string' },
             confidence: { type: 'number' },
+            explanation: explanationSchema,
+            verification: verificationSchema,
             linkedinVerified: { type: 'boolean' },
+            asciiDomain: { type: 'string' },
+            requiresSmtpUtf8: { type: 'boolean' },
+            suggestion: {
+              type: 'object',
+              properties: {
+                email: { type: 'string' },
+                domain: { type: 'string' },
+                reason: { type: 'string' },
+                isStrongMatch: { type: 'boolean' },
+              },
+            },
             errors: { type: 'array', items: { type: 'string' } },
+            syntaxErrors: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  code: { type: 'string' },
+                  message: { type: 'string' },
+                },
+              },
+            },
           },
         },
       },
@@ -193,80 +547,429 @@ export async function emailRoutes(fastify: FastifyInstance) {
   }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
       const body = EmailValidateRequest.parse(request.body);
-      const { email, validateSmtp, checkCatchAll, checkLinkedIn, timeout } = body;
+      const { email, validateSmtp, checkCatchAll, verify, checkLinkedIn, timeout } = body;
+      const apiKeyId = request.apiKey!.id;
+      const verificationProviders = selectVerificationProviders(request.apiKey?.verificationProviders, { verify, checkLinkedIn });
 
-      // Check cache first
+      // Check cache first; like /validations/:id, a key only sees its own results
       const cached = await db.query.emailValidations.findFirst({
         where: (validations, { eq, and, gt }) => and(
           eq(validations.email, email),
+          eq(validations.apiKeyId, apiKeyId),
           gt(validations.expiresAt, new Date())
         ),
       });
 
       if (cached) {
-        return {
+        const parsed = parseEmailAddress(cached.email);
+        const suggestion = await domainTypoService.suggest(parsed.localPart, parsed.asciiDomain);
+        // Stored evidence answered the earlier request's flags; this request runs its own providers
+        const explanation = cached.confidenceExplanation as ConfidenceFactor[] | null;
+
+        const result = {
+          validationId: cached.id,
           email: cached.email,
           isValid: cached.isValid,
+          status: cached.status ?? undefined,
+          reason: cached.reason ?? undefined,
           isCatchAll: cached.isCatchAll,
+          isDisposable: cached.isDisposable,
+          isFreeProvider: cached.isFreeProvider,
+          isRoleAccount: cached.isRoleAccount,
+          isDeferred: cached.isDeferred,
+          retryAt: cached.nextRetryAt?.toISOString(),
+          resultUrl: `/api/email/validations/${cached.id}`,
           mxRecords: cached.mxRecords || [],
           mxProvider: cached.mxProvider,
           smtpResponse: cached.smtpResponse,
+          smtpIdentity: cached.smtpIdentity ?? undefined,
           validationMethod: cached.validationMethod,
-          confidence: cached.confidence,
-          linkedinVerified: cached.linkedinVerified,
+          confidence: cached.confidence ?? 0,
+          explanation: explanation ?? undefined,
+          ...(explanation
+            ? ConfidenceScore.from(explanation.filter(factor => factor.factor !== 'external-verification')).summary()
+            : {}),
+          suggestion: suggestion ?? undefined,
         };
+
+        if (verificationProviders.length === 0 || !cached.isValid) {
+          return result;
+        }
+        const evidence = await verificationRegistry.run({ email }, verificationProviders);
+        return { ...applyVerificationEvidence(result, evidence), linkedinVerified: linkedinVerified(evidence) };
       }
 
       // Perform validation
-      const validation = await validationService.validateEmail({
+      let validation = await validationService.validateEmail({
         email,
         validateSmtp,
         checkCatchAll,
         timeout,
       });
 
-      // Check LinkedIn if requested
-      if (checkLinkedIn && validation.isValid) {
-        const linkedinResult = await linkedinService.verifyProfile({
-          email,
-        });
+      // Malformed addresses are rejected before any lookup; nothing worth caching
+      if (validation.validationMethod === 'format-only') {
+        return validation;
+      }
 
-        validation.linkedinVerified = linkedinResult.verified;
-        if (linkedinResult.verified) {
-          validation.confidence += 15;
-        }
+      // External verification providers, if requested
+      if (verificationProviders.length > 0 && validation.isValid) {
+        const evidence = await verificationRegistry.run({ email }, verificationProviders);
+        validation = applyVerificationEvidence(validation, evidence);
+        validation.linkedinVerified = linkedinVerified(evidence);
       }
 
-      // Cache the result
-      await db.insert(emailValidations).values({
-        id: nanoid(),
-        email,
-        domain: email.split('@')[1],
+      // Cache the result; greylisted results are re-checked in the background
+      const { validationId, retryAt } = await deferredValidationService.store(email, parseEmailAddress(email).asciiDomain, validation, apiKeyId);
+
+      return {
+        ...validation,
+        validationId,
+        isDeferred: retryAt !== null,
+        retryAt: retryAt?.toISOString(),
+        resultUrl: `/api/email/validations/${validationId}`,
+      };
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Get a stored validation, e.g. the final verdict of a deferred one
+  fastify.get('/validations/:id', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+        },
+        required: ['id'],
+      },
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            validationId: { type: 'string' },
+            email: { type: 'string' },
+            isValid: { type: 'boolean' },
+            status: { type: 'string' },
+            reason: { type: 'string' },
+            isCatchAll: { type: 'boolean' },
+            isDisposable: { type: 'boolean' },
+            isFreeProvider: { type: 'boolean' },
+            isRoleAccount: { type: 'boolean' },
+            isDeferred: { type: 'boolean' },
+            retryCount: { type: 'number' },
+            retryAt: { type: 'string' },
+            mxRecords: { type: 'array' },
+            mxProvider: { type: 'string' },
+            smtpResponse: { type: 'string' },
+            smtpIdentity: {
+              type: 'object',
+              properties: {
+                id: { type: 'string' },
+                localAddress: { type: 'string' },
+                heloHostname: { type: 'string' },
+                mailFrom: { type: 'string' },
+              },
+            },
+            validationMethod: { type: 'string' },
+            confidence: { type: 'number' },
+            explanation: explanationSchema,
+            verification: verificationSchema,
+            createdAt: { type: 'string' },
+            resolvedAt: { type: 'string' },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { id } = request.params as { id: string };
+
+      // Results of other keys are reported as missing, not forbidden
+      const validation = await db.query.emailValidations.findFirst({
+        where: (validations, { eq, and }) => and(
+          eq(validations.id, id),
+          eq(validations.apiKeyId, request.apiKey!.id)
+        ),
+      });
+
+      if (!validation) {
+        reply.status(404).send({
+          error: 'Not found',
+          message: 'Validation not found',
+        });
+        return;
+      }
+
+      reply.send({
+        validationId: validation.id,
+        email: validation.email,
         isValid: validation.isValid,
+        status: validation.status ?? undefined,
+        reason: validation.reason ?? undefined,
         isCatchAll: validation.isCatchAll,
-        mxRecords: validation.mxRecords.map(r => r.exchange),
-        mxProvider: validation.mxProvider,
-        smtpResponse: validation.smtpResponse,
+        isDisposable: validation.isDisposable,
+        isFreeProvider: validation.isFreeProvider,
+        isRoleAccount: validation.isRoleAccount,
+        isDeferred: validation.isDeferred,
+        retryCount: validation.retryCount,
+        retryAt: validation.nextRetryAt?.toISOString(),
+        mxRecords: validation.mxRecords || [],
+        mxProvider: validation.mxProvider ?? undefined,
+        smtpResponse: validation.smtpResponse ?? undefined,
+        smtpIdentity: validation.smtpIdentity ?? undefined,
         validationMethod: validation.validationMethod,
-        confidence: validation.confidence,
-        linkedinVerified: validation.linkedinVerified,
-        createdAt: new Date(),
-        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+        confidence: validation.confidence ?? undefined,
+        explanation: validation.confidenceExplanation ?? undefined,
+        verification: validation.verification ?? undefined,
+        createdAt: validation.createdAt.toISOString(),
+        resolvedAt: validation.resolvedAt?.toISOString(),
+      });
+
+    } catch (error) {
+      fastify.log.error(error);
+      reply.status(500).send({
+        error: 'Internal server error',
+        message: 'Failed to fetch validation',
+      });
+    }
+  });
+
+  // Render pattern templates for a sample name, reporting template errors
+  fastify.post('/patterns/preview', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      body: PatternPreviewRequest,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            previews: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  template: { type: 'string' },
+                  isValid: { type: 'boolean' },
+                  error: { type: 'string' },
+                  errorPosition: { type: 'number' },
+                  localPart: { type: ['string', 'null'] },
+                  example: { type: ['string', 'null'] },
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { templates, firstName, lastName, middleName, domain } = PatternPreviewRequest.parse(request.body);
+
+      return {
+        previews: patternService.previewPatterns(templates, { firstName, lastName, middleName }, domain),
+      };
+    } catch (error) {
+      return reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
+      });
+    }
+  });
+
+  // Deduce a domain's address patterns from known addresses and apply them to new names
+  fastify.post('/patterns/infer', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      body: PatternInferRequest,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            domain: { type: 'string' },
+            patterns: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  pattern: { type: 'string' },
+                  sampleEmails: { type: 'array', items: { type: 'string' } },
+                },
+              },
+            },
+            unmatched: { type: 'array', items: { type: 'string' } },
+            unverified: { type: 'array', items: { type: 'string' } },
+            people: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  firstName: { type: 'string' },
+                  middleName: { type: 'string' },
+                  lastName: { type: 'string' },
+                  email: { type: ['string', 'null'] },
+                  pattern: { type: ['string', 'null'] },
+                  confidence: { type: ['number', 'null'] },
+                  explanation: explanationSchema,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { domain, samples, people, timeout } = PatternInferRequest.parse(request.body);
+
+      // Samples are stored only once the domain's mail server accepts them
+      const domainProfile = await validationService.getDomainProfile(domain, { timeout, probeCatchAll: true }).catch(() => null);
+      const validations = domainProfile?.isCatchAll === false
+        ? await validationService.validateEmails({
+          emails: [...new Set(samples.map(sample => sample.email.trim().toLowerCase()))],
+          checkCatchAll: true,
+          timeout,
+          stopOnValid: false,
+        })
+        : new Map<string, EmailValidationResult>();
+
+      const inference = await patternService.inferDomainPatterns(domain, samples, validations, domainProfile?.isCatchAll ?? null);
+      const inferred = new Set(inference.patterns.map(({ pattern }) => pattern));
+
+      // Stored patterns now rank first for the domain; take the best one each name produces
+      const generated = await Promise.all(people.map(async person => {
+        const patterns = await patternService.generatePatterns({ domain, ...person });
+        const best = patterns.find(pattern => inferred.has(pattern.pattern));
+        return {
+          ...person,
+          email: best?.example ?? null,
+          pattern: best?.pattern ?? null,
+          confidence: best?.confidence ?? null,
+          explanation: best?.explanation,
+        };
+      }));
+
+      return {
+        domain,
+        patterns: inference.patterns,
+        unmatched: inference.unmatched,
+        unverified: inference.unverified,
+        people: generated,
+      };
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(400).send({
+        error: 'Invalid request',
+        message: error instanceof Error ? error.message : 'Unknown error',
       });
+    }
+  });
 
-      return validation;
+  // Guess the person behind an address from its local part
+  fastify.post('/parse', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      body: EmailParseRequest,
+      response: {
+        200: {
+          type: 'object',
+          properties: {
+            email: { type: 'string' },
+            localPart: { type: 'string' },
+            domain: { type: 'string' },
+            isRoleAccount: { type: 'boolean' },
+            names: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  firstName: { type: ['string', 'null'] },
+                  middleName: { type: ['string', 'null'] },
+                  lastName: { type: ['string', 'null'] },
+                  partial: { type: 'array', items: { type: 'string' } },
+                  pattern: { type: 'string' },
+                  confidence: { type: 'number' },
+                  explanation: explanationSchema,
+                },
+              },
+            },
+          },
+        },
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    try {
+      const { email } = EmailParseRequest.parse(request.body);
+      const parsed = parseEmailAddress(email);
+      if (!parsed.isValid) {
+        return reply.status(400).send({
+          error: 'Invalid request',
+          message: parsed.errors[0]?.message ?? `Invalid email address: ${email}`,
+        });
+      }
+
+      // info@ or sales@ belongs to a team, not to a person with a name
+      const { isRoleAccount } = emailClassificationService.classify(parsed.address);
 
+      return {
+        email: parsed.address,
+        localPart: parsed.localPart,
+        domain: parsed.asciiDomain,
+        isRoleAccount,
+        names: isRoleAccount ? [] : await patternService.parseLocalPart(parsed.localPart, parsed.asciiDomain),
+      };
     } catch (error) {
       fastify.log.error(error);
-      reply.status(400).send({
+      return reply.status(400).send({
         error: 'Invalid request',
         message: error instanceof Error ? error.message : 'Unknown error',
       });
     }
   });
 
+  // Mail setup of a domain: MX provider, SPF, DMARC, MTA-STS, TLS-RPT, BIMI and DKIM
+  fastify.get('/domain/:domain', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
+    schema: {
+      params: {
+        type: 'object',
+        properties: {
+          domain: { type: 'string' },
+        },
+        required: ['domain'],
+      },
+    },
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
+    const { domain } = request.params as { domain: string };
+    const asciiDomain = toAsciiDomain(domain);
+    if (!asciiDomain) {
+      return reply.status(400).send({
+        error: 'Invalid request',
+        message: `Invalid domain: ${domain}`,
+      });
+    }
+
+    try {
+      return await domainIntelligenceService.lookup(asciiDomain);
+    } catch (error) {
+      fastify.log.error(error);
+      return reply.status(500).send({
+        error: 'Internal server error',
+        message: 'Failed to look up domain',
+      });
+    }
+  });
+
   // Get validation history for a domain
   fastify.get('/history/:domain', {
+    preHandler: [apiKeyAuth, rateLimitMiddleware],
     schema: {
       params: {
         type: 'object',
@@ -283,13 +986,35 @@ export async function emailRoutes(fastify: FastifyInstance) {
         },
       },
     },
-  }, async (request: FastifyRequest, reply: FastifyReply) => {
+  }, async (request: AuthenticatedRequest, reply: FastifyReply) => {
     try {
       const { domain } = request.params as { domain: string };
       const { limit, offset } = request.query as { limit: number; offset: number };
 
+      // Only the caller's own results, without internal columns such as the SMTP identity
       const validations = await db.query.emailValidations.findMany({
-        where: (validations, { eq }) => eq(validations.domain, domain),
+        columns: {
+          id: true,
+          email: true,
+          domain: true,
+          isValid: true,
+          status: true,
+          reason: true,
+          isCatchAll: true,
+          isDisposable: true,
+          isFreeProvider: true,
+          isRoleAccount: true,
+          isDeferred: true,
+          mxProvider: true,
+          validationMethod: true,
+          confidence: true,
+          createdAt: true,
+          resolvedAt: true,
+        },
+        where: (validations, { eq, and }) => and(
+          eq(validations.domain, domain),
+          eq(validations.apiKeyId, request.apiKey!.id)
+        ),
         limit,
         offset,
         orderBy: (validations, { desc }) => [desc(validations.createdAt)],
@@ -0,0 +1,487 @@
+import { z } from 'zod';
+import { nanoid } from 'nanoid';
+import { eq, and, or, lt, asc, inArray, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { bulkJobs, bulkJobRows } from '../config/schema';
+import { EmailPatternService } from './emailPatterns';
+import { EmailValidationService } from './emailValidation';
+import { deferredValidationService } from './deferredValidation';
+import { combineWithPatternPrior } from './confidenceScoring';
+import { toAsciiDomain } from './emailSyntax';
+import { parseCsv, toCsv } from '../utils/csv';
+import { BackgroundConfig, loadBackgroundConfig } from '../config/background';
+
+export const BulkJobOptions = z.object({
+  validateEmails: z.boolean().default(true),
+  maxCandidates: z.number().int().min(1).max(20).default(5),
+  timeout: z.number().min(1000).max(30000).default(5000),
+});
+
+export type BulkJobOptions = z.infer<typeof BulkJobOptions>;
+
+export type BulkJobStatus = 'queued' | 'processing' | 'completed' | 'failed';
+// 'deferred' rows wait for the re-check of a greylisted candidate, which settles them later
+export type BulkRowStatus = 'pending' | 'found' | 'catch_all' | 'guessed' | 'deferred' | 'not_found' | 'failed';
+
+export interface BulkLead {
+  firstName: string;
+  middleName?: string | undefined;
+  lastName: string;
+  domain: string;
+  companyName?: string | undefined;
+  error?: string | undefined;
+}
+
+interface RowOutcome {
+  status: BulkRowStatus;
+  email?: string | undefined;
+  pattern?: string | undefined;
+  confidence?: number | undefined;
+  isCatchAll?: boolean | undefined;
+  candidatesChecked: number;
+  error?: string | undefined;
+}
+
+const MAX_ROWS = parseInt(process.env['BULK_MAX_ROWS'] || '10000');
+const ROW_CONCURRENCY = 3;
+const INSERT_CHUNK_SIZE = 500;
+// A processing job whose owner has not refreshed it for this long is taken over by another instance
+const JOB_LEASE_MS = 5 * 60 * 1000;
+
+// Header aliases accepted in uploaded files, keyed by normalized header
+const HEADER_ALIASES: Record<string, keyof Omit<BulkLead, 'error'>> = {
+  firstname: 'firstName',
+  first: 'firstName',
+  givenname: 'firstName',
+  middlename: 'middleName',
+  middle: 'middleName',
+  middleinitial: 'middleName',
+  lastname: 'lastName',
+  last: 'lastName',
+  surname: 'lastName',
+  familyname: 'lastName',
+  domain: 'domain',
+  companydomain: 'domain',
+  website: 'domain',
+  companyname: 'companyName',
+  company: 'companyName',
+};
+
+export class BulkJobService {
+  private readonly patternService = new EmailPatternService();
+  private readonly validationService = new EmailValidationService();
+  private readonly queue: string[] = [];
+  private currentJobId: string | null = null;
+  private isRunning = false;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(private readonly background: BackgroundConfig = loadBackgroundConfig()) {}
+
+  parseLeads(content: string): BulkLead[] {
+    const [header, ...records] = parseCsv(content);
+    if (!header) {
+      throw new Error('CSV file is empty');
+    }
+
+    const columns = header.map(name => HEADER_ALIASES[name.toLowerCase().replace(/[^a-z]/g, '')]);
+    for (const required of ['firstName', 'lastName', 'domain'] as const) {
+      if (!columns.includes(required)) {
+        throw new Error(`CSV is missing required column: ${required}`);
+      }
+    }
+
+    if (records.length === 0) {
+      throw new Error('CSV file contains no rows');
+    }
+    if (records.length > MAX_ROWS) {
+      throw new Error(`CSV file exceeds the maximum of ${MAX_ROWS} rows`);
+    }
+
+    return records.map(record => {
+      const lead: BulkLead = { firstName: '', lastName: '', domain: '' };
+      columns.forEach((column, index) => {
+        const value = record[index]?.trim();
+        if (column && value) {
+          lead[column] = value;
+        }
+      });
+
+      // Internationalized domains are stored in punycode, as used for DNS and SMTP
+      const asciiDomain = toAsciiDomain(this.normalizeDomain(lead.domain));
+      lead.domain = asciiDomain ?? lead.domain;
+
+      if (!lead.firstName || !lead.lastName) {
+        lead.error = 'firstName and lastName are required';
+      } else if (lead.firstName.length > 50 || lead.lastName.length > 50 || (lead.middleName?.length ?? 0) > 50) {
+        lead.error = 'Names must be at most 50 characters';
+      } else if (!asciiDomain) {
+        lead.error = 'A valid domain is required';
+      }
+
+      return lead;
+    });
+  }
+
+  async createJob(apiKeyId: string, leads: BulkLead[], options: BulkJobOptions, fileName?: string) {
+    const jobId = nanoid();
+    const now = new Date();
+    const invalidRows = leads.filter(lead => lead.error).length;
+
+    await db.insert(bulkJobs).values({
+      id: jobId,
+      apiKeyId,
+      fileName: fileName ?? null,
+      status: 'queued',
+      totalRows: leads.length,
+      processedRows: invalidRows,
+      failedRows: invalidRows,
+      options,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    for (let start = 0; start < leads.length; start += INSERT_CHUNK_SIZE) {
+      const chunk = leads.slice(start, start + INSERT_CHUNK_SIZE);
+      await db.insert(bulkJobRows).values(chunk.map((lead, offset) => ({
+        id: nanoid(),
+        jobId,
+        rowIndex: start + offset,
+        firstName: lead.firstName.substring(0, 100),
+        middleName: lead.middleName?.substring(0, 100) ?? null,
+        lastName: lead.lastName.substring(0, 100),
+        domain: lead.domain.substring(0, 255),
+        companyName: lead.companyName ?? null,
+        status: lead.error ? 'failed' : 'pending',
+        error: lead.error ?? null,
+        createdAt: now,
+        updatedAt: now,
+      })));
+    }
+
+    // In worker mode the job waits in the database for the worker to pick it up
+    if (this.background.mode === 'in-process') {
+      this.enqueue(jobId);
+    }
+    return jobId;
+  }
+
+  async getJob(jobId: string, apiKeyId: string) {
+    const job = await db.query.bulkJobs.findFirst({
+      where: (jobs, { eq, and }) => and(
+        eq(jobs.id, jobId),
+        eq(jobs.apiKeyId, apiKeyId)
+      ),
+    });
+    return job ?? null;
+  }
+
+  async getRows(jobId: string) {
+    return db.query.bulkJobRows.findMany({
+      where: (rows, { eq }) => eq(rows.jobId, jobId),
+      orderBy: (rows, { asc }) => [asc(rows.rowIndex)],
+    });
+  }
+
+  async exportCsv(jobId: string): Promise<string> {
+    const rows = await this.getRows(jobId);
+    return toCsv(
+      ['firstName', 'middleName', 'lastName', 'domain', 'companyName', 'email', 'pattern', 'confidence', 'isCatchAll', 'status', 'error'],
+      rows.map(row => [
+        row.firstName,
+        row.middleName,
+        row.lastName,
+        row.domain,
+        row.companyName,
+        row.email,
+        row.pattern,
+        row.confidence,
+        row.isCatchAll,
+        row.status,
+        row.error,
+      ])
+    );
+  }
+
+  // Worker loop: picks up queued jobs, including ones created by other processes
+  start(intervalMs = this.background.pollIntervalMs): void {
+    if (this.timer) {
+      return;
+    }
+    const poll = () => this.resumePendingJobs().catch(error => {
+      console.error('Bulk job poll failed:', error);
+    });
+    void poll();
+    this.timer = setInterval(poll, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Queue unfinished jobs; rows already processed are kept. Jobs another instance holds are
+  // skipped by the claim in processJob
+  async resumePendingJobs(): Promise<void> {
+    const pending = await db.query.bulkJobs.findMany({
+      where: (jobs, { inArray }) => inArray(jobs.status, ['queued', 'processing']),
+      orderBy: (jobs, { asc }) => [asc(jobs.createdAt)],
+    });
+
+    pending.forEach(job => this.enqueue(job.id));
+  }
+
+  private enqueue(jobId: string): void {
+    if (jobId !== this.currentJobId && !this.queue.includes(jobId)) {
+      this.queue.push(jobId);
+    }
+    void this.drainQueue();
+  }
+
+  private async drainQueue(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+    this.isRunning = true;
+
+    try {
+      let jobId: string | undefined;
+      while ((jobId = this.queue.shift()) !== undefined) {
+        this.currentJobId = jobId;
+        try {
+          await this.processJob(jobId);
+        } catch (error) {
+          console.error(`Bulk job ${jobId} failed:`, error);
+          await db.update(bulkJobs)
+            .set({
+              status: 'failed',
+              error: error instanceof Error ? error.message : 'Unknown error',
+              updatedAt: new Date(),
+            })
+            .where(eq(bulkJobs.id, jobId));
+        }
+      }
+    } finally {
+      this.currentJobId = null;
+      this.isRunning = false;
+    }
+  }
+
+  // Claims the job so only one instance processes it, returning null when another one holds it
+  private async claimJob(jobId: string) {
+    const now = new Date();
+    const [job] = await db.update(bulkJobs)
+      .set({ status: 'processing', startedAt: sql`coalesce(${bulkJobs.startedAt}, now())`, updatedAt: now })
+      .where(and(
+        eq(bulkJobs.id, jobId),
+        or(
+          eq(bulkJobs.status, 'queued'),
+          and(eq(bulkJobs.status, 'processing'), lt(bulkJobs.updatedAt, new Date(now.getTime() - JOB_LEASE_MS)))
+        )
+      ))
+      .returning();
+    return job ?? null;
+  }
+
+  private async processJob(jobId: string): Promise<void> {
+    const job = await this.claimJob(jobId);
+    if (!job) {
+      return;
+    }
+
+    // Keep the lease while rows are slow, e.g. when every candidate times out
+    const heartbeat = setInterval(() => {
+      db.update(bulkJobs)
+        .set({ updatedAt: new Date() })
+        .where(and(eq(bulkJobs.id, jobId), eq(bulkJobs.status, 'processing')))
+        .catch(error => console.error(`Bulk job ${jobId} heartbeat failed:`, error));
+    }, JOB_LEASE_MS / 5);
+
+    try {
+      await this.processRows(job.id, job.apiKeyId, BulkJobOptions.parse(job.options ?? {}));
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    await db.update(bulkJobs)
+      .set({ status: 'completed', completedAt: new Date(), updatedAt: new Date() })
+      .where(eq(bulkJobs.id, jobId));
+  }
+
+  private async processRows(jobId: string, apiKeyId: string, options: BulkJobOptions): Promise<void> {
+    const pendingRows = await db.select()
+      .from(bulkJobRows)
+      .where(and(eq(bulkJobRows.jobId, jobId), inArray(bulkJobRows.status, ['pending'])))
+      .orderBy(asc(bulkJobRows.rowIndex));
+
+    // Process rows with a small worker pool so one job cannot flood mail servers
+    let cursor = 0;
+    const worker = async () => {
+      while (cursor < pendingRows.length) {
+        const row = pendingRows[cursor++];
+        if (!row) {
+          break;
+        }
+
+        let outcome: RowOutcome;
+        try {
+          outcome = await this.processRow(row, options, apiKeyId);
+        } catch (error) {
+          outcome = {
+            status: 'failed',
+            candidatesChecked: 0,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          };
+        }
+
+        await db.update(bulkJobRows)
+          .set({
+            status: outcome.status,
+            email: outcome.email ?? null,
+            pattern: outcome.pattern ?? null,
+            confidence: outcome.confidence ?? null,
+            isCatchAll: outcome.isCatchAll ?? null,
+            candidatesChecked: outcome.candidatesChecked,
+            error: outcome.error ?? null,
+            updatedAt: new Date(),
+          })
+          .where(eq(bulkJobRows.id, row.id));
+
+        await db.update(bulkJobs)
+          .set({
+            processedRows: sql`${bulkJobs.processedRows} + 1`,
+            foundRows: sql`${bulkJobs.foundRows} + ${outcome.status === 'found' ? 1 : 0}`,
+            failedRows: sql`${bulkJobs.failedRows} + ${outcome.status === 'failed' ? 1 : 0}`,
+            updatedAt: new Date(),
+          })
+          .where(eq(bulkJobs.id, jobId));
+      }
+    };
+
+    await Promise.all(Array.from({ length: ROW_CONCURRENCY }, worker));
+  }
+
+  private async processRow(
+    row: { id: string; firstName: string; middleName: string | null; lastName: string; domain: string; companyName: string | null },
+    options: BulkJobOptions,
+    apiKeyId: string
+  ): Promise<RowOutcome> {
+    const patterns = await this.patternService.generatePatterns({
+      domain: row.domain,
+      firstName: row.firstName,
+      middleName: row.middleName ?? undefined,
+      lastName: row.lastName,
+      companyName: row.companyName ?? undefined,
+    });
+
+    const best = patterns[0];
+    if (!best) {
+      return { status: 'not_found', candidatesChecked: 0 };
+    }
+
+    if (!options.validateEmails) {
+      return {
+        status: 'guessed',
+        email: best.example,
+        pattern: best.pattern,
+        confidence: best.confidence,
+        candidatesChecked: 0,
+      };
+    }
+
+    // Validate candidates in confidence order and stop at the first hit
+    const candidates = patterns.slice(0, options.maxCandidates);
+    const domainProfile = await this.validationService
+      .getDomainProfile(row.domain, { timeout: options.timeout, probeCatchAll: true })
+      .catch(() => null);
+    let checked = 0;
+    let deferred: RowOutcome | null = null;
+
+    for (const candidate of candidates) {
+      const validation = combineWithPatternPrior(await this.validationService.validateEmail({
+        email: candidate.example,
+        validateSmtp: true,
+        checkCatchAll: true,
+        timeout: options.timeout,
+      }), candidate);
+      checked++;
+
+      // The row id lets the re-check of a deferred candidate settle this row
+      const stored = await deferredValidationService.store(candidate.example, row.domain, validation, apiKeyId, row.id);
+
+      await this.patternService.learnFromValidation(
+        {
+          domain: row.domain,
+          firstName: row.firstName,
+          middleName: row.middleName ?? undefined,
+          lastName: row.lastName,
+          email: candidate.example,
+        },
+        validation,
+        domainProfile?.isCatchAll ?? null
+      );
+
+      if (validation.mxRecords.length === 0) {
+        // Domain does not receive mail, other candidates will fail the same way
+        return {
+          status: 'not_found',
+          candidatesChecked: checked,
+          error: validation.errors?.[0],
+        };
+      }
+
+      if (validation.isCatchAll) {
+        // Every address is accepted, so this candidate is as good as it gets
+        return {
+          status: 'catch_all',
+          email: candidate.example,
+          pattern: candidate.pattern,
+          confidence: validation.confidence,
+          isCatchAll: true,
+          candidatesChecked: checked,
+        };
+      }
+
+      if (validation.isValid) {
+        return {
+          status: 'found',
+          email: candidate.example,
+          pattern: candidate.pattern,
+          confidence: validation.confidence,
+          isCatchAll: false,
+          candidatesChecked: checked,
+        };
+      }
+
+      // Greylisted: keep checking the others, but do not report the row as not found
+      if (stored.retryAt && !deferred) {
+        deferred = {
+          status: 'deferred',
+          email: candidate.example,
+          pattern: candidate.pattern,
+          confidence: validation.confidence,
+          candidatesChecked: 0,
+        };
+      }
+    }
+
+    if (deferred) {
+      return { ...deferred, candidatesChecked: checked };
+    }
+    return { status: 'not_found', candidatesChecked: checked };
+  }
+
+  private normalizeDomain(value: string): string {
+    return value
+      .toLowerCase()
+      .trim()
+      .replace(/^.*@/, '')
+      .replace(/^https?:\/\//, '')
+      .replace(/^www\./, '')
+      .replace(/[/?#].*$/, '');
+  }
+}
+
+// Singleton instance
+export const bulkJobService = new BulkJobService();
@@ -122,12 +122,37 @@ export class CacheService {
     return this.set(`email_validation:${email}`, validation, ttlSeconds);
   }
 
+  // DNS answers (and cached NXDOMAIN/NODATA) keyed by record type and name
+  async getDnsRecords(type: string, name: string): Promise<any | null> {
+    return this.get(`dns:${type}:${name}`);
+  }
+
+  async setDnsRecords(type: string, name: string, entry: any, ttlSeconds = 300): Promise<boolean> {
+    return this.set(`dns:${type}:${name}`, entry, ttlSeconds);
+  }
+
   async getMXRecords(domain: string): Promise<any | null> {
-    return this.get(`mx_records:${domain}`);
+    return this.getDnsRecords('MX', domain);
   }
 
   async setMXRecords(domain: string, records: any, ttlSeconds = 3600): Promise<boolean> {
-    return this.set(`mx_records:${domain}`, records, ttlSeconds);
+    return this.setDnsRecords('MX', domain, records, ttlSeconds);
+  }
+
+  async getDomainProfile(domain: string): Promise<any | null> {
+    return this.get(`domain_profile:${domain}`);
+  }
+
+  async setDomainProfile(domain: string, profile: any, ttlSeconds = 86400): Promise<boolean> {
+    return this.set(`domain_profile:${domain}`, profile, ttlSeconds);
+  }
+
+  async getDomainIntelligence(domain: string): Promise<any | null> {
+    return this.get(`domain_intelligence:${domain}`);
+  }
+
+  async setDomainIntelligence(domain: string, intelligence: any, ttlSeconds = 21600): Promise<boolean> {
+    return this.set(`domain_intelligence:${domain}`, intelligence, ttlSeconds);
   }
 
   async getLinkedInProfile(email: string): Promise<any | null> {
@@ -138,6 +163,108 @@ export class CacheService {
     return this.set(`linkedin_profile:${email}`, profile, ttlSeconds);
   }
 
+  // Deferred (greylisted) validation schedule, scored by retry time in ms
+  async scheduleDeferredValidation(validationId: string, retryAt: Date): Promise<boolean> {
+    try {
+      if (!this.isConnected) {
+        await this.connect();
+      }
+
+      await this.client.zAdd('deferred_validations', { score: retryAt.getTime(), value: validationId });
+      return true;
+    } catch (error) {
+      console.error('Deferred validation schedule error:', error);
+      return false;
+    }
+  }
+
+  // Claims due entries; ZREM makes the claim atomic across processes
+  async claimDueDeferredValidations(limit = 20): Promise<string[]> {
+    try {
+      if (!this.isConnected) {
+        await this.connect();
+      }
+
+      const due = await this.client.zRangeByScore('deferred_validations', 0, Date.now(), {
+        LIMIT: { offset: 0, count: limit },
+      });
+
+      const claimed: string[] = [];
+      for (const validationId of due) {
+        if (await this.client.zRem('deferred_validations', validationId) === 1) {
+          claimed.push(validationId);
+        }
+      }
+      return claimed;
+    } catch (error) {
+      console.error('Deferred validation claim error:', error);
+      return [];
+    }
+  }
+
+  // Distributed per-MX connection slots: a sorted set of holders scored by their last
+  // heartbeat. Holders silent for staleMs (a crashed process) are dropped on the next acquire.
+  // Null when Redis is unavailable; the caller decides whether to go on without shared limits.
+  async acquireMxSlot(hostKey: string, holderId: string, limit: number, staleMs = 120000): Promise<boolean | null> {
+    try {
+      if (!this.isConnected) {
+        await this.connect();
+      }
+
+      const key = `mx_slots:${hostKey}`;
+      const now = Date.now();
+      await this.client.zRemRangeByScore(key, 0, now - staleMs);
+      await this.client.zAdd(key, { score: now, value: holderId });
+      await this.client.pExpire(key, staleMs);
+
+      if (await this.client.zCard(key) > limit) {
+        await this.client.zRem(key, holderId);
+        return false;
+      }
+      return true;
+    } catch (error) {
+      console.error('MX slot acquire error:', error);
+      return null;
+    }
+  }
+
+  // Keeps a long session's slot from being taken for a crashed one
+  async refreshMxSlot(hostKey: string, holderId: string, staleMs = 120000): Promise<void> {
+    try {
+      if (!this.isConnected) {
+        await this.connect();
+      }
+
+      const key = `mx_slots:${hostKey}`;
+      await this.client.zAdd(key, { score: Date.now(), value: holderId }, { XX: true });
+      await this.client.pExpire(key, staleMs);
+    } catch (error) {
+      console.error('MX slot refresh error:', error);
+    }
+  }
+
+  async releaseMxSlot(hostKey: string, holderId: string): Promise<void> {
+    try {
+      if (!this.isConnected) {
+        await this.connect();
+      }
+
+      await this.client.zRem(`mx_slots:${hostKey}`, holderId);
+    } catch (error) {
+      console.error('MX slot release error:', error);
+    }
+  }
+
+  async getMxBackoff(hostKey: string): Promise<number> {
+    const until = await this.get<number>(`mx_backoff:${hostKey}`);
+    return until ?? 0;
+  }
+
+  async setMxBackoff(hostKey: string, until: number): Promise<boolean> {
+    const ttlSeconds = Math.max(1, Math.ceil((until - Date.now()) / 1000));
+    return this.set(`mx_backoff:${hostKey}`, until, ttlSeconds);
+  }
+
   // Rate limiting methods
   async incrementRateLimit(apiKey: string, endpoint: string, windowSeconds = 60): Promise<number> {
     try {
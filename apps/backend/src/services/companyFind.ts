@@ -0,0 +1,257 @@
+import { z } from 'zod';
+import { EmailPattern, EmailPatternService } from './emailPatterns';
+import { EmailValidationResult, EmailValidationService } from './emailValidation';
+import { DomainProfile } from './domainProfile';
+import { deferredValidationService } from './deferredValidation';
+import { toAsciiDomain } from './emailSyntax';
+import { ConfidenceFactor, combineWithPatternPrior } from './confidenceScoring';
+import { DeliverabilityReason, DeliverabilityStatus } from './deliverabilityStatus';
+import {
+  VerificationEvidence,
+  VerificationProviderSetting,
+  applyVerificationEvidence,
+  linkedinVerified,
+  selectVerificationProviders,
+  verificationRegistry,
+} from './verificationProviders';
+
+export const CompanyFindInput = z.object({
+  // A bare domain or any address at it; internationalized domains are converted to punycode
+  domain: z.string().transform((value, ctx) => {
+    const domain = toAsciiDomain(value);
+    if (!domain) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid domain: ${value}` });
+      return z.NEVER;
+    }
+    return domain;
+  }),
+  companyName: z.string().optional(),
+  // Everyone is probed within one request; larger lists belong in a bulk job
+  people: z.array(z.object({
+    firstName: z.string().min(1).max(50),
+    middleName: z.string().max(50).optional(),
+    lastName: z.string().min(1).max(50),
+  })).min(1).max(10),
+  expandNicknames: z.boolean().default(false),
+  validateEmails: z.boolean().default(true),
+  // Run the API key's verification providers on deliverable candidates
+  verify: z.boolean().default(false),
+  // Run only the LinkedIn provider
+  checkLinkedIn: z.boolean().default(false),
+  // Candidates probed per person
+  maxCandidates: z.number().int().min(1).max(5).default(5),
+  timeout: z.number().min(1000).max(30000).default(5000),
+});
+
+export type CompanyFindInput = z.infer<typeof CompanyFindInput>;
+
+export type CompanyFindStatus = 'found' | 'catch_all' | 'guessed' | 'not_found';
+
+export interface CompanyFindPersonResult {
+  firstName: string;
+  middleName?: string | undefined;
+  lastName: string;
+  status: CompanyFindStatus;
+  email?: string | undefined;
+  pattern?: string | undefined;
+  confidence?: number | undefined;
+  explanation?: ConfidenceFactor[] | undefined;
+  // Deliverability of the returned address, when it was checked
+  deliverability?: DeliverabilityStatus | undefined;
+  reason?: DeliverabilityReason | undefined;
+  // Evidence of the verification providers, with verify or checkLinkedIn
+  verification?: VerificationEvidence[] | undefined;
+  candidatesChecked: number;
+  // The company pattern was tried first for this person
+  usedCompanyPattern: boolean;
+}
+
+export interface CompanyPattern {
+  pattern: string;
+  // People whose address was confirmed with this pattern
+  confirmedBy: number;
+}
+
+export interface CompanyFindResult {
+  domain: string;
+  domainProfile: DomainProfile | null;
+  companyPattern: CompanyPattern | null;
+  people: CompanyFindPersonResult[];
+}
+
+// The API key a search runs for: results are stored under it and verified with its providers
+export interface CompanyFindCaller {
+  id: string;
+  verificationProviders?: VerificationProviderSetting[] | null | undefined;
+}
+
+type Person = CompanyFindInput['people'][number];
+
+interface SearchContext {
+  apiKeyId: string;
+  verificationProviders: VerificationProviderSetting[];
+  domainProfile: DomainProfile | null;
+}
+
+export class CompanyFindService {
+  private readonly patternService = new EmailPatternService();
+  private readonly validationService = new EmailValidationService();
+
+  // People are searched one after another so each confirmed address sharpens the
+  // company pattern used to order the next person's candidates
+  async find(input: CompanyFindInput, caller: CompanyFindCaller): Promise<CompanyFindResult> {
+    const { domain, people, validateEmails, verify, checkLinkedIn, timeout } = input;
+
+    // MX set and catch-all status once for the whole company
+    const domainProfile = validateEmails
+      ? await this.validationService.getDomainProfile(domain, { timeout, probeCatchAll: true }).catch(() => null)
+      : null;
+    const context: SearchContext = {
+      apiKeyId: caller.id,
+      verificationProviders: selectVerificationProviders(caller.verificationProviders, { verify, checkLinkedIn }),
+      domainProfile,
+    };
+
+    const confirmed = new Map<string, number>();
+    const results: CompanyFindPersonResult[] = [];
+
+    for (const person of people) {
+      const result = await this.findPerson(person, input, context, this.getCompanyPattern(confirmed)?.pattern);
+      if (result.status === 'found' && result.pattern) {
+        confirmed.set(result.pattern, (confirmed.get(result.pattern) ?? 0) + 1);
+      }
+      results.push(result);
+    }
+
+    return {
+      domain,
+      domainProfile,
+      companyPattern: this.getCompanyPattern(confirmed),
+      people: results,
+    };
+  }
+
+  private async findPerson(
+    person: Person,
+    input: CompanyFindInput,
+    context: SearchContext,
+    companyPattern: string | undefined
+  ): Promise<CompanyFindPersonResult> {
+    const { domain, companyName, expandNicknames, validateEmails, maxCandidates, timeout } = input;
+    const { domainProfile } = context;
+    const patterns = await this.patternService.generatePatterns({ domain, ...person, companyName, expandNicknames });
+
+    // The company pattern goes first; the rest keep their ranking
+    const ordered = companyPattern
+      ? [...patterns.filter(pattern => pattern.pattern === companyPattern), ...patterns.filter(pattern => pattern.pattern !== companyPattern)]
+      : patterns;
+    const usedCompanyPattern = !!companyPattern && ordered[0]?.pattern === companyPattern;
+
+    const best = ordered[0];
+    if (!best) {
+      return { ...person, status: 'not_found', candidatesChecked: 0, usedCompanyPattern };
+    }
+
+    // Without SMTP, or on a domain that accepts everything, the top guess is the answer
+    if (!validateEmails || domainProfile?.isCatchAll) {
+      return {
+        ...person,
+        email: best.example,
+        pattern: best.pattern,
+        confidence: best.confidence,
+        explanation: best.explanation,
+        status: validateEmails ? 'catch_all' : 'guessed',
+        candidatesChecked: 0,
+        usedCompanyPattern,
+      };
+    }
+
+    // Candidates in order over shared SMTP sessions, stopping at the first hit
+    const candidates = ordered.slice(0, maxCandidates);
+    const validations = await this.validationService.validateEmails({
+      emails: candidates.map(candidate => candidate.example),
+      checkCatchAll: true,
+      timeout,
+      stopOnValid: true,
+    });
+
+    let checked = 0;
+    let hit: { candidate: EmailPattern; validation: EmailValidationResult } | null = null;
+    for (const candidate of candidates) {
+      const result = validations.get(candidate.example);
+      if (!result) {
+        continue;
+      }
+      checked++;
+
+      const validation = await this.recordValidation(domain, companyName, person, candidate, result, context);
+      if (validation.isValid && !hit) {
+        hit = { candidate, validation };
+      }
+    }
+
+    if (!hit) {
+      return { ...person, status: 'not_found', candidatesChecked: checked, usedCompanyPattern };
+    }
+
+    const { candidate, validation } = hit;
+    return {
+      ...person,
+      email: candidate.example,
+      pattern: candidate.pattern,
+      confidence: validation.confidence,
+      explanation: validation.explanation,
+      deliverability: validation.status,
+      reason: validation.reason,
+      verification: validation.verification,
+      status: validation.isCatchAll ? 'catch_all' : 'found',
+      candidatesChecked: checked,
+      usedCompanyPattern,
+    };
+  }
+
+  // Pattern with the most confirmed people; the earliest confirmed wins a tie
+  private getCompanyPattern(confirmed: Map<string, number>): CompanyPattern | null {
+    let best: CompanyPattern | null = null;
+    for (const [pattern, confirmedBy] of confirmed) {
+      if (!best || confirmedBy > best.confirmedBy) {
+        best = { pattern, confirmedBy };
+      }
+    }
+    return best;
+  }
+
+  // External verification, storage, deferred re-check and pattern learning for one verdict
+  private async recordValidation(
+    domain: string,
+    companyName: string | undefined,
+    person: Person,
+    candidate: EmailPattern,
+    checked: EmailValidationResult,
+    context: SearchContext
+  ): Promise<EmailValidationResult> {
+    let validation = combineWithPatternPrior(checked, candidate);
+
+    if (context.verificationProviders.length > 0 && validation.isValid) {
+      const evidence = await verificationRegistry.run(
+        { email: candidate.example, firstName: person.firstName, lastName: person.lastName, company: companyName },
+        context.verificationProviders
+      );
+      validation = applyVerificationEvidence(validation, evidence);
+      validation.linkedinVerified = linkedinVerified(evidence);
+    }
+
+    await deferredValidationService.store(candidate.example, domain, validation, context.apiKeyId);
+
+    await this.patternService.learnFromValidation(
+      { domain, ...person, email: candidate.example },
+      validation,
+      context.domainProfile?.isCatchAll ?? null
+    );
+
+    return validation;
+  }
+}
+
+// Singleton instance
+export const companyFindService = new CompanyFindService();
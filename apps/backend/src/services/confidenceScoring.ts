@@ -0,0 +1,179 @@
+// Every confidence score in the API is built here, so each one is bounded to 0-100
+// and explains itself as a list of factors that add up to it
+
+export type ConfidenceFactorName =
+  // Pattern ranking
+  | 'pattern-source'
+  | 'pattern-shape'
+  | 'name-variant'
+  | 'learned-domain'
+  | 'learned-global'
+  // Validation
+  | 'syntax'
+  | 'typo'
+  | 'mail-host'
+  | 'smtp'
+  | 'catch-all'
+  | 'mx-redundancy'
+  | 'provider'
+  | 'disposable'
+  | 'role-account'
+  | 'free-provider'
+  // Combined into the validation of a generated candidate
+  | 'pattern-prior'
+  | 'external-verification'
+  // Reverse parsing of an address into a name
+  | 'name-split'
+  // Correction when the factors add up to less than 0 or more than 100
+  | 'bounds';
+
+export interface ConfidenceFactor {
+  factor: ConfidenceFactorName;
+  // Points added to the score; negative values take points off
+  contribution: number;
+  detail: string;
+}
+
+export interface ScoredResult {
+  confidence: number;
+  explanation?: ConfidenceFactor[] | undefined;
+}
+
+interface SmtpEvidence {
+  isCatchAll: boolean;
+  isDeferred?: boolean | undefined;
+  smtpResponse?: string | undefined;
+}
+
+const MIN_SCORE = 0;
+const MAX_SCORE = 100;
+
+// Gateways that often accept any recipient at RCPT TO and bounce unknown ones later
+const RECIPIENT_BLIND_PROVIDERS = new Set([
+  'Proofpoint',
+  'Mimecast',
+  'Barracuda',
+  'Cisco Secure Email',
+  'Broadcom Email Security.cloud',
+  'Trend Micro',
+  'Sophos',
+  'Hornetsecurity',
+  'Forcepoint',
+]);
+
+export class ConfidenceScore {
+  private readonly factors: ConfidenceFactor[] = [];
+
+  // Continue a score from a returned explanation; an earlier bounds correction is recomputed
+  static from(explanation: ConfidenceFactor[] = []): ConfidenceScore {
+    const score = new ConfidenceScore();
+    explanation
+      .filter(factor => factor.factor !== 'bounds')
+      .forEach(factor => score.add(factor.factor, factor.contribution, factor.detail));
+    return score;
+  }
+
+  add(factor: ConfidenceFactorName, contribution: number, detail: string): this {
+    this.factors.push({ factor, contribution: Math.round(contribution), detail });
+    return this;
+  }
+
+  // Move the score to target, recording the difference as one factor
+  adjustTo(factor: ConfidenceFactorName, target: number, detail: string): this {
+    return this.add(factor, target - this.rawValue(), detail);
+  }
+
+  get value(): number {
+    return Math.max(MIN_SCORE, Math.min(MAX_SCORE, this.rawValue()));
+  }
+
+  get explanation(): ConfidenceFactor[] {
+    const raw = this.rawValue();
+    if (raw > MAX_SCORE || raw < MIN_SCORE) {
+      return [...this.factors, {
+        factor: 'bounds',
+        contribution: this.value - raw,
+        detail: `Capped at ${raw > MAX_SCORE ? MAX_SCORE : MIN_SCORE}`,
+      }];
+    }
+    return [...this.factors];
+  }
+
+  // Confidence and explanation, ready to spread into a result
+  summary(): { confidence: number; explanation: ConfidenceFactor[] } {
+    return { confidence: this.value, explanation: this.explanation };
+  }
+
+  private rawValue(): number {
+    return this.factors.reduce((sum, factor) => sum + factor.contribution, 0);
+  }
+}
+
+// SMTP verdict, catch-all status, MX redundancy and mail provider of a checked address
+export function scoreSmtpVerdict(input: {
+  isValid: boolean;
+  isCatchAll: boolean;
+  response?: string | undefined;
+  mxCount: number;
+  mxProvider?: string | undefined;
+}): ConfidenceScore {
+  const score = new ConfidenceScore();
+
+  if (input.isValid) {
+    score.add('smtp', 80, `Mailbox accepted${input.response ? `: ${input.response}` : ''}`);
+  } else {
+    score.add('smtp', 20, input.response ? `Mailbox not accepted: ${input.response}` : 'No definitive SMTP answer');
+  }
+
+  if (input.isCatchAll) {
+    score.add('catch-all', -20, 'Domain accepts any address, so acceptance proves little');
+  }
+  if (input.mxCount > 1) {
+    score.add('mx-redundancy', 10, `${input.mxCount} MX hosts`);
+  }
+  if (input.isValid && input.mxProvider && RECIPIENT_BLIND_PROVIDERS.has(input.mxProvider)) {
+    score.add('provider', -10, `${input.mxProvider} may accept unknown recipients and bounce them later`);
+  }
+
+  return score;
+}
+
+// Deliverable is not the same as useful: throwaway, shared and webmail inboxes rank lower
+export function applyClassificationFactors(
+  score: ConfidenceScore,
+  classification: { isDisposable: boolean; isRoleAccount: boolean; isFreeProvider: boolean }
+): ConfidenceScore {
+  if (classification.isDisposable) {
+    score.add('disposable', -40, 'Disposable address');
+  }
+  if (classification.isRoleAccount) {
+    score.add('role-account', -15, 'Role account rather than a person');
+  }
+  if (classification.isFreeProvider) {
+    score.add('free-provider', -10, 'Free webmail provider');
+  }
+  return score;
+}
+
+// Validation of a generated address, tempered by how likely its pattern is. The prior
+// counts for more when SMTP could not tell addresses apart (catch-all, no answer).
+export function combineWithPatternPrior<T extends ScoredResult & SmtpEvidence>(
+  validation: T,
+  pattern: { pattern: string; confidence: number }
+): T {
+  const decisive = !validation.isCatchAll && !validation.isDeferred && !!validation.smtpResponse;
+  const weight = decisive ? 0.1 : 0.5;
+  const contribution = Math.round((pattern.confidence - 50) * weight);
+
+  return addConfidenceFactor(validation, 'pattern-prior', contribution, `Pattern ${pattern.pattern} ranked at ${pattern.confidence}`);
+}
+
+// Add a factor to an already scored result, e.g. a LinkedIn profile match
+export function addConfidenceFactor<T extends ScoredResult>(
+  result: T,
+  factor: ConfidenceFactorName,
+  contribution: number,
+  detail: string
+): T {
+  return { ...result, ...ConfidenceScore.from(result.explanation).add(factor, contribution, detail).summary() };
+}
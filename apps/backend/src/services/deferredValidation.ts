@@ -0,0 +1,234 @@
+import { and, eq, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from '../config/database';
+import { bulkJobs, bulkJobRows, emailValidations } from '../config/schema';
+import { cacheService } from './cache';
+import { EmailValidationResult, EmailValidationService } from './emailValidation';
+
+// Back-off between attempts; greylisting windows are usually 1-15 minutes
+const RETRY_DELAYS_MINUTES = [5, 15, 45, 120];
+const POLL_INTERVAL_MS = 30 * 1000;
+const RETRY_TIMEOUT_MS = 10000;
+// Delay before a retry that failed on our side (database, Redis) is attempted again
+const FAILED_RETRY_DELAY_MS = 5 * 60 * 1000;
+const STORED_RESULT_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface StoredValidation {
+  validationId: string;
+  // Null unless a re-check was queued
+  retryAt: Date | null;
+}
+
+export class DeferredValidationService {
+  private readonly validationService = new EmailValidationService();
+  private timer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+
+  // Schedules a retry for a deferred result; returns the retry time, if any. Null when
+  // nothing could be queued, so the result is stored as final instead of pending forever.
+  async scheduleIfDeferred(validationId: string, validation: EmailValidationResult, retryCount = 0): Promise<Date | null> {
+    if (!validation.isDeferred) {
+      return null;
+    }
+
+    const delay = RETRY_DELAYS_MINUTES[retryCount];
+    if (delay === undefined) {
+      return null;
+    }
+
+    const retryAt = new Date(Date.now() + delay * 60 * 1000);
+    const scheduled = await cacheService.scheduleDeferredValidation(validationId, retryAt);
+    return scheduled ? retryAt : null;
+  }
+
+  // Stores a verdict in email_validations, queuing a re-check when the server deferred it.
+  // Without an API key the row is never served by /validations/:id.
+  async store(
+    email: string,
+    domain: string,
+    validation: EmailValidationResult,
+    apiKeyId?: string | undefined,
+    bulkRowId?: string | undefined
+  ): Promise<StoredValidation> {
+    const validationId = nanoid();
+
+    // The row must exist before the retry is queued, or a due retry can find nothing to update
+    await db.insert(emailValidations).values({
+      id: validationId,
+      apiKeyId: apiKeyId ?? null,
+      bulkRowId: bulkRowId ?? null,
+      email,
+      domain,
+      isValid: validation.isValid,
+      status: validation.status,
+      reason: validation.reason,
+      isCatchAll: validation.isCatchAll,
+      isDisposable: validation.isDisposable,
+      isFreeProvider: validation.isFreeProvider,
+      isRoleAccount: validation.isRoleAccount,
+      isDeferred: validation.isDeferred === true,
+      mxRecords: validation.mxRecords.map(r => r.exchange),
+      mxProvider: validation.mxProvider ?? null,
+      smtpResponse: validation.smtpResponse ?? null,
+      smtpIdentity: validation.smtpIdentity ?? null,
+      validationMethod: validation.validationMethod,
+      confidence: validation.confidence,
+      confidenceExplanation: validation.explanation ?? null,
+      linkedinVerified: validation.linkedinVerified ?? null,
+      verification: validation.verification ?? null,
+      createdAt: new Date(),
+      expiresAt: new Date(Date.now() + STORED_RESULT_TTL_MS),
+    });
+
+    const retryAt = await this.scheduleIfDeferred(validationId, validation);
+    if (validation.isDeferred) {
+      // Nothing was queued when this is null, so the verdict stays as stored instead of pending forever
+      await db.update(emailValidations)
+        .set({ isDeferred: retryAt !== null, nextRetryAt: retryAt })
+        .where(eq(emailValidations.id, validationId));
+    }
+
+    return { validationId, retryAt };
+  }
+
+  start(intervalMs = POLL_INTERVAL_MS): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      void this.processDue();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  async processDue(): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+    this.isPolling = true;
+
+    try {
+      const validationIds = await cacheService.claimDueDeferredValidations();
+      for (const validationId of validationIds) {
+        try {
+          await this.retry(validationId);
+        } catch (error) {
+          // The claim removed it from the schedule; put it back so it is not lost
+          console.error(`Deferred validation ${validationId} retry failed:`, error);
+          await cacheService.scheduleDeferredValidation(validationId, new Date(Date.now() + FAILED_RETRY_DELAY_MS));
+        }
+      }
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async retry(validationId: string): Promise<void> {
+    const record = await db.query.emailValidations.findFirst({
+      where: (validations, { eq }) => eq(validations.id, validationId),
+    });
+    if (!record || !record.isDeferred) {
+      return;
+    }
+
+    const validation = await this.validationService.validateEmail({
+      email: record.email,
+      validateSmtp: true,
+      checkCatchAll: true,
+      timeout: RETRY_TIMEOUT_MS,
+    });
+
+    const retryCount = record.retryCount + 1;
+    const retryAt = await this.scheduleIfDeferred(validationId, validation, retryCount);
+
+    if (retryAt) {
+      await db.update(emailValidations)
+        .set({
+          retryCount,
+          nextRetryAt: retryAt,
+          smtpResponse: validation.smtpResponse ?? record.smtpResponse,
+        })
+        .where(eq(emailValidations.id, validationId));
+      return;
+    }
+
+    // Final verdict: either the server answered definitively or retries are exhausted
+    await db.update(emailValidations)
+      .set({
+        isValid: validation.isValid,
+        status: validation.status,
+        reason: validation.reason,
+        isCatchAll: validation.isCatchAll,
+        isDisposable: validation.isDisposable,
+        isFreeProvider: validation.isFreeProvider,
+        isRoleAccount: validation.isRoleAccount,
+        isDeferred: false,
+        retryCount,
+        nextRetryAt: null,
+        mxRecords: validation.mxRecords.map(r => r.exchange),
+        mxProvider: validation.mxProvider ?? null,
+        smtpResponse: validation.smtpResponse ?? null,
+        smtpIdentity: validation.smtpIdentity ?? null,
+        validationMethod: validation.validationMethod,
+        confidence: validation.confidence,
+        confidenceExplanation: validation.explanation ?? null,
+        resolvedAt: new Date(),
+        expiresAt: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+      })
+      .where(eq(emailValidations.id, validationId));
+
+    if (record.bulkRowId) {
+      await this.settleBulkRow(record.bulkRowId, record.email, validation);
+    }
+  }
+
+  // A deferred bulk row is found once one of its candidates checks out, and not found
+  // once none of them is still waiting for a re-check
+  private async settleBulkRow(bulkRowId: string, email: string, validation: EmailValidationResult): Promise<void> {
+    if (validation.isValid) {
+      const [row] = await db.update(bulkJobRows)
+        .set({
+          status: validation.isCatchAll ? 'catch_all' : 'found',
+          email,
+          // The pattern was for the first deferred candidate; keep it only when that one checked out
+          pattern: sql`case when ${bulkJobRows.email} = ${email} then ${bulkJobRows.pattern} else null end`,
+          confidence: validation.confidence,
+          isCatchAll: validation.isCatchAll,
+          error: null,
+          updatedAt: new Date(),
+        })
+        .where(and(eq(bulkJobRows.id, bulkRowId), eq(bulkJobRows.status, 'deferred')))
+        .returning();
+
+      if (row && !validation.isCatchAll) {
+        await db.update(bulkJobs)
+          .set({ foundRows: sql`${bulkJobs.foundRows} + 1`, updatedAt: new Date() })
+          .where(eq(bulkJobs.id, row.jobId));
+      }
+      return;
+    }
+
+    const waiting = await db.query.emailValidations.findFirst({
+      where: (validations, { eq, and }) => and(
+        eq(validations.bulkRowId, bulkRowId),
+        eq(validations.isDeferred, true)
+      ),
+    });
+    if (waiting) {
+      return;
+    }
+
+    await db.update(bulkJobRows)
+      .set({ status: 'not_found', email: null, pattern: null, confidence: null, updatedAt: new Date() })
+      .where(and(eq(bulkJobRows.id, bulkRowId), eq(bulkJobRows.status, 'deferred')));
+  }
+}
+
+// Singleton instance
+export const deferredValidationService = new DeferredValidationService();
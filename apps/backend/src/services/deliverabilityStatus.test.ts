@@ -0,0 +1,114 @@
+import {
+  SmtpReplyDetails,
+  classifySmtpVerdict,
+  isRecipientLimitReply,
+  parseSmtpReply,
+  reasonForSmtpReply,
+} from './deliverabilityStatus';
+
+const reply = (response: string): SmtpReplyDetails => {
+  const parsed = parseSmtpReply(response);
+  if (!parsed) {
+    throw new Error(`Not an SMTP reply: ${response}`);
+  }
+  return parsed;
+};
+
+describe('parseSmtpReply', () => {
+  it('splits code, enhanced code and text', () => {
+    expect(parseSmtpReply('550 5.1.1 <jane@example.com>: Recipient address rejected: User unknown')).toEqual({
+      code: 550,
+      enhancedCode: '5.1.1',
+      text: '<jane@example.com>: Recipient address rejected: User unknown',
+    });
+    expect(parseSmtpReply('250 2.1.5 Ok')).toEqual({ code: 250, enhancedCode: '2.1.5', text: 'Ok' });
+  });
+
+  it('reads the first line of a multi-line reply and keeps the rest of the text', () => {
+    expect(parseSmtpReply('550-5.1.1 The email account that you tried to reach does not exist.\n5.1.1 Please try again')).toEqual({
+      code: 550,
+      enhancedCode: '5.1.1',
+      text: 'The email account that you tried to reach does not exist.\n5.1.1 Please try again',
+    });
+  });
+
+  it('leaves out a missing enhanced code or one whose class contradicts the reply', () => {
+    expect(parseSmtpReply('550 Mailbox unavailable')).toEqual({ code: 550, enhancedCode: undefined, text: 'Mailbox unavailable' });
+    expect(parseSmtpReply('550 4.1.1 User unknown')?.enhancedCode).toBeUndefined();
+  });
+
+  it('gives null for text that is not a reply', () => {
+    expect(parseSmtpReply('Connection timed out')).toBeNull();
+    expect(parseSmtpReply('')).toBeNull();
+  });
+});
+
+describe('reasonForSmtpReply', () => {
+  it.each([
+    ['550 5.1.1 User unknown', 'mailbox-unknown'],
+    ['550 5.1.10 RESOLVER.ADR.RecipientNotFound; Recipient not found by SMTP address lookup', 'mailbox-unknown'],
+    ['550 5.1.2 Host unknown', 'domain-unknown'],
+    ['553 5.1.3 Bad recipient address syntax', 'invalid-address'],
+    ['550 5.1.6 Recipient has moved', 'mailbox-moved'],
+    ['550 5.2.1 The email account that you tried to reach is disabled', 'mailbox-disabled'],
+    ['552 5.2.2 Mailbox full', 'mailbox-full'],
+    ['452 4.5.3 Too many recipients', 'temporary-failure'],
+    ['553 5.6.7 SMTPUTF8 is required', 'smtputf8-unsupported'],
+    ['550 5.7.1 Service unavailable; client host blocked using Spamhaus', 'policy-block'],
+    ['451 4.7.1 Greylisted, please try again in 5 minutes', 'greylisted'],
+  ])('uses the enhanced code of %j', (response, reason) => {
+    expect(reasonForSmtpReply(reply(response))).toBe(reason);
+  });
+
+  it.each([
+    ['550 5.7.0 Requested action not taken: user unknown', 'mailbox-unknown'],
+    ['550 5.0.0 No such user here', 'mailbox-unknown'],
+    ['550 User unknown in relay recipient table', 'mailbox-unknown'],
+    ['554 Message rejected due to poor sender reputation', 'policy-block'],
+    ['450 Recipient address rejected: Greylisted', 'greylisted'],
+    ['452 Too many recipients received this hour', 'temporary-failure'],
+    ['550 Account has been suspended', 'mailbox-disabled'],
+    ['552 Quota exceeded', 'mailbox-full'],
+  ])('reads the text of %j when the code is missing or generic', (response, reason) => {
+    expect(reasonForSmtpReply(reply(response))).toBe(reason);
+  });
+
+  it.each([
+    ['552 Requested action aborted', 'mailbox-full'],
+    ['551 User not local', 'mailbox-moved'],
+    ['553 Sorry', 'invalid-address'],
+    ['550 Denied', 'rejected'],
+    ['421 Try again later', 'temporary-failure'],
+  ])('falls back to the reply code for %j', (response, reason) => {
+    expect(reasonForSmtpReply(reply(response))).toBe(reason);
+  });
+});
+
+describe('isRecipientLimitReply', () => {
+  it('recognizes the recipient limit by code or text', () => {
+    expect(isRecipientLimitReply(reply('452 4.5.3 Error: too many recipients'))).toBe(true);
+    expect(isRecipientLimitReply(reply('452 Too many recipients'))).toBe(true);
+    expect(isRecipientLimitReply(reply('452 4.2.2 Mailbox full'))).toBe(false);
+  });
+});
+
+describe('classifySmtpVerdict', () => {
+  const base = { isValid: false, isCatchAll: false, isDisposable: false };
+
+  it('grades accepted addresses', () => {
+    expect(classifySmtpVerdict({ ...base, isValid: true })).toEqual({ status: 'deliverable', reason: 'accepted' });
+    expect(classifySmtpVerdict({ ...base, isValid: true, isCatchAll: true })).toEqual({ status: 'risky', reason: 'catch-all' });
+    expect(classifySmtpVerdict({ ...base, isValid: true, isDisposable: true })).toEqual({ status: 'risky', reason: 'disposable' });
+  });
+
+  it('grades rejections by their reply', () => {
+    expect(classifySmtpVerdict({ ...base, response: '550 5.1.1 User unknown' })).toEqual({ status: 'undeliverable', reason: 'mailbox-unknown' });
+    expect(classifySmtpVerdict({ ...base, response: '550 5.7.1 Blocked' })).toEqual({ status: 'unknown', reason: 'policy-block' });
+    expect(classifySmtpVerdict(base)).toEqual({ status: 'unknown', reason: 'smtp-unavailable' });
+  });
+
+  it('never calls a deferred address undeliverable', () => {
+    expect(classifySmtpVerdict({ ...base, isDeferred: true, response: '450 4.1.1 User unknown' }))
+      .toEqual({ status: 'unknown', reason: 'temporary-failure' });
+  });
+});
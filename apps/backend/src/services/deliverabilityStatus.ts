@@ -0,0 +1,181 @@
+// What a validation means for sending mail, derived from SMTP replies and their
+// RFC 3463 enhanced status codes ("550 5.1.1 User unknown")
+
+export type DeliverabilityStatus = 'deliverable' | 'undeliverable' | 'risky' | 'unknown';
+
+export type DeliverabilityReason =
+  // Deliverable
+  | 'accepted'
+  // Risky: accepted, but acceptance proves little or the inbox is a poor target
+  | 'catch-all'
+  | 'disposable'
+  | 'mailbox-full'        // x.2.2, 452, 552: the mailbox exists but cannot take mail now
+  | 'possible-typo'       // domain looks like a mistyped popular domain
+  // Undeliverable
+  | 'invalid-syntax'
+  | 'null-mx'             // the domain publishes "MX 0 ."
+  | 'domain-not-found'    // NXDOMAIN
+  | 'no-mail-host'        // no MX, A or AAAA records
+  | 'mailbox-unknown'     // x.1.1, x.1.10: no such user
+  | 'mailbox-disabled'    // x.2.1
+  | 'mailbox-moved'       // x.1.6, 551
+  | 'invalid-address'     // x.1.3, 553: the server rejects the address format
+  | 'domain-unknown'      // x.1.2: the server does not handle the domain
+  | 'smtputf8-unsupported'
+  | 'rejected'            // permanent rejection without a more specific cause
+  // Unknown: nothing was learned about the mailbox
+  | 'policy-block'        // x.7.x: refused because of the sender, not the recipient
+  | 'greylisted'
+  | 'temporary-failure'   // x.5.3 (too many recipients), other 4xx replies
+  | 'smtp-unavailable'    // no RCPT TO reply from any mail host
+  | 'dns-failure'
+  | 'not-checked';        // SMTP check skipped
+
+export interface SmtpReplyDetails {
+  code: number;
+  // "5.1.1"; undefined when the server sent none
+  enhancedCode?: string | undefined;
+  text: string;
+}
+
+export interface Deliverability {
+  status: DeliverabilityStatus;
+  reason: DeliverabilityReason;
+}
+
+const STATUS_BY_REASON: Record<DeliverabilityReason, DeliverabilityStatus> = {
+  'accepted': 'deliverable',
+  'catch-all': 'risky',
+  'disposable': 'risky',
+  'mailbox-full': 'risky',
+  'possible-typo': 'risky',
+  'invalid-syntax': 'undeliverable',
+  'null-mx': 'undeliverable',
+  'domain-not-found': 'undeliverable',
+  'no-mail-host': 'undeliverable',
+  'mailbox-unknown': 'undeliverable',
+  'mailbox-disabled': 'undeliverable',
+  'mailbox-moved': 'undeliverable',
+  'invalid-address': 'undeliverable',
+  'domain-unknown': 'undeliverable',
+  'smtputf8-unsupported': 'undeliverable',
+  'rejected': 'undeliverable',
+  'policy-block': 'unknown',
+  'greylisted': 'unknown',
+  'temporary-failure': 'unknown',
+  'smtp-unavailable': 'unknown',
+  'dns-failure': 'unknown',
+  'not-checked': 'unknown',
+};
+
+// Enhanced codes by "subject.detail" (RFC 3463 section 3); the class comes from the reply
+const ENHANCED_CODE_REASONS: Record<string, DeliverabilityReason> = {
+  '1.1': 'mailbox-unknown',
+  '1.2': 'domain-unknown',
+  '1.3': 'invalid-address',
+  '1.6': 'mailbox-moved',
+  '1.10': 'mailbox-unknown', // Exchange: RecipientNotFound
+  '2.1': 'mailbox-disabled',
+  '2.2': 'mailbox-full',
+  '5.3': 'temporary-failure', // too many recipients: the rest go in another transaction
+  '6.7': 'smtputf8-unsupported', // RFC 6531
+};
+
+// Servers without enhanced codes, or with generic ones (5.0.0), usually say it in words
+const TEXT_REASONS: Array<[RegExp, DeliverabilityReason]> = [
+  [/too many recipients/i, 'temporary-failure'],
+  [/gr[ae]y ?list/i, 'greylisted'],
+  [/quota|mailbox (is )?full|over ?limit|insufficient storage/i, 'mailbox-full'],
+  [/disabled|deactivated|inactive|suspended/i, 'mailbox-disabled'],
+  // Before the policy words: "User unknown in relay recipient table" is about the mailbox
+  [/user unknown|unknown user|no such (user|mailbox|recipient)|does not exist|doesn't exist|not found|unknown recipient|invalid recipient|mailbox unavailable/i, 'mailbox-unknown'],
+  [/spam|block|blacklist|reputation|policy|not authori[sz]ed|access denied|relay/i, 'policy-block'],
+];
+
+const REPLY_PATTERN = /^([245]\d\d)(?:[ -]+([245])\.(\d{1,3})\.(\d{1,3}))?[ -]*(.*)$/s;
+
+export function deliverability(reason: DeliverabilityReason): Deliverability {
+  return { status: STATUS_BY_REASON[reason], reason };
+}
+
+// Null when the text is not an SMTP reply
+export function parseSmtpReply(response: string): SmtpReplyDetails | null {
+  const match = REPLY_PATTERN.exec(response.trim());
+  if (!match) {
+    return null;
+  }
+
+  const [, code = '0', enhancedClass, subject, detail, text = ''] = match;
+  return {
+    code: parseInt(code),
+    // An enhanced code whose class contradicts the reply code is ignored (RFC 3463 section 2)
+    enhancedCode: enhancedClass === code.charAt(0) ? `${enhancedClass}.${subject}.${detail}` : undefined,
+    text,
+  };
+}
+
+// The server caps recipients per transaction (x.5.3, usually with 452); the reply says
+// nothing about the mailbox, which has to be asked in a new session
+export function isRecipientLimitReply(reply: SmtpReplyDetails): boolean {
+  return reply.enhancedCode?.endsWith('.5.3') || /too many recipients/i.test(reply.text);
+}
+
+// Reason behind a negative or temporary RCPT TO reply
+export function reasonForSmtpReply(reply: SmtpReplyDetails): DeliverabilityReason {
+  if (reply.enhancedCode) {
+    const [, subject, detail] = reply.enhancedCode.split('.');
+    const reason = ENHANCED_CODE_REASONS[`${subject}.${detail}`];
+    if (reason) {
+      return reason;
+    }
+    // Security or policy status: the sender was refused, greylisting included. The
+    // catch-all x.7.0 is used for anything from greylisting to server errors.
+    if (subject === '7' && detail !== '0') {
+      return /gr[ae]y ?list/i.test(reply.text) ? 'greylisted' : 'policy-block';
+    }
+  }
+
+  const textReason = TEXT_REASONS.find(([pattern]) => pattern.test(reply.text))?.[1];
+  if (textReason) {
+    return textReason;
+  }
+
+  switch (reply.code) {
+    case 452:
+    case 552:
+      return 'mailbox-full';
+    case 551:
+      return 'mailbox-moved';
+    case 553:
+      return 'invalid-address';
+  }
+  return reply.code >= 500 ? 'rejected' : 'temporary-failure';
+}
+
+// Status of an address that reached the RCPT TO stage
+export function classifySmtpVerdict(verdict: {
+  isValid: boolean;
+  isDeferred?: boolean | undefined;
+  isCatchAll: boolean;
+  isDisposable: boolean;
+  response?: string | undefined;
+}): Deliverability {
+  if (verdict.isValid) {
+    if (verdict.isCatchAll) {
+      return deliverability('catch-all');
+    }
+    return deliverability(verdict.isDisposable ? 'disposable' : 'accepted');
+  }
+
+  const reply = verdict.response ? parseSmtpReply(verdict.response) : null;
+  if (!reply) {
+    return deliverability('smtp-unavailable');
+  }
+
+  const reason = reasonForSmtpReply(reply);
+  // A deferral can only be a temporary condition, whatever the text says
+  if (verdict.isDeferred && STATUS_BY_REASON[reason] === 'undeliverable') {
+    return deliverability('temporary-failure');
+  }
+  return deliverability(reason);
+}
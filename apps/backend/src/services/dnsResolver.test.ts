@@ -0,0 +1,94 @@
+import { CachingDnsResolver, DnsAnswer, DnsError, DnsRecordType, DnsResolver, InMemoryDnsResolver } from './dnsResolver';
+import { cacheService } from './cache';
+
+jest.mock('./cache', () => {
+  const entries = new Map<string, { entry: unknown; ttl: number }>();
+  return {
+    cacheService: {
+      entries,
+      getDnsRecords: async (type: string, name: string) => entries.get(`${type}:${name}`)?.entry ?? null,
+      setDnsRecords: async (type: string, name: string, entry: unknown, ttl: number) => {
+        entries.set(`${type}:${name}`, { entry, ttl });
+        return true;
+      },
+    },
+  };
+});
+
+const cached = (cacheService as unknown as { entries: Map<string, { entry: unknown; ttl: number }> }).entries;
+
+const options = { enabled: true, minTtl: 30, maxTtl: 3600, defaultTtl: 300, negativeTtl: 600 };
+
+// Answers with a fixed TTL, or fails with a negative-caching hint, as DoH does
+class TtlResolver implements DnsResolver {
+  constructor(private readonly answer: { ttl: number } | DnsError) {}
+
+  async query<T extends DnsRecordType>(): Promise<DnsAnswer<T>> {
+    if (this.answer instanceof DnsError) {
+      throw this.answer;
+    }
+    return { records: ['192.0.2.1'] as DnsAnswer<T>['records'], ttl: this.answer.ttl };
+  }
+}
+
+describe('CachingDnsResolver', () => {
+  beforeEach(() => cached.clear());
+
+  it('serves a repeated lookup from the cache', async () => {
+    const upstream = new InMemoryDnsResolver().setRecords('example.com', 'MX', [{ exchange: 'mx.example.com', priority: 10 }]);
+    const resolver = new CachingDnsResolver(upstream, options);
+
+    const first = await resolver.query('Example.com.', 'MX');
+    const second = await resolver.query('example.com', 'MX');
+
+    expect(second.records).toEqual(first.records);
+    expect(upstream.queries).toEqual([{ name: 'example.com', type: 'MX' }]);
+    expect(cached.get('MX:example.com')?.ttl).toBe(options.defaultTtl);
+  });
+
+  it('keeps an upstream TTL within the configured bounds', async () => {
+    await new CachingDnsResolver(new TtlResolver({ ttl: 5 }), options).query('short.example', 'A');
+    await new CachingDnsResolver(new TtlResolver({ ttl: 86400 }), options).query('long.example', 'A');
+
+    expect(cached.get('A:short.example')?.ttl).toBe(options.minTtl);
+    expect(cached.get('A:long.example')?.ttl).toBe(options.maxTtl);
+  });
+
+  it('caches NXDOMAIN for the negative TTL and answers it from the cache', async () => {
+    const upstream = new InMemoryDnsResolver();
+    const resolver = new CachingDnsResolver(upstream, options);
+
+    await expect(resolver.query('missing.example', 'MX')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+    await expect(resolver.query('missing.example', 'MX')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+
+    expect(upstream.queries).toHaveLength(1);
+    expect(cached.get('MX:missing.example')).toEqual({ entry: { error: 'ENOTFOUND' }, ttl: options.negativeTtl });
+  });
+
+  it('caches NODATA for no longer than the SOA allows', async () => {
+    const resolver = new CachingDnsResolver(new TtlResolver(new DnsError('ENODATA', 'nodata.example', 'MX', 60)), options);
+
+    await expect(resolver.query('nodata.example', 'MX')).rejects.toMatchObject({ code: 'ENODATA' });
+
+    expect(cached.get('MX:nodata.example')?.ttl).toBe(60);
+  });
+
+  it('never lets the SOA extend the negative TTL', async () => {
+    const resolver = new CachingDnsResolver(new TtlResolver(new DnsError('ENOTFOUND', 'gone.example', 'MX', 86400)), options);
+
+    await expect(resolver.query('gone.example', 'MX')).rejects.toMatchObject({ code: 'ENOTFOUND' });
+
+    expect(cached.get('MX:gone.example')?.ttl).toBe(options.negativeTtl);
+  });
+
+  it('does not cache SERVFAIL', async () => {
+    const upstream = new InMemoryDnsResolver().setError('broken.example', 'MX', 'ESERVFAIL');
+    const resolver = new CachingDnsResolver(upstream, options);
+
+    await expect(resolver.query('broken.example', 'MX')).rejects.toMatchObject({ code: 'ESERVFAIL' });
+    await expect(resolver.query('broken.example', 'MX')).rejects.toMatchObject({ code: 'ESERVFAIL' });
+
+    expect(upstream.queries).toHaveLength(2);
+    expect(cached.has('MX:broken.example')).toBe(false);
+  });
+});
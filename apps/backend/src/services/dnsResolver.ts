@@ -0,0 +1,282 @@
+import { Resolver } from 'dns/promises';
+import { isIP } from 'net';
+import { DnsConfig, loadDnsConfig } from '../config/dns';
+import { cacheService } from './cache';
+
+export interface MxAnswer {
+  exchange: string;
+  priority: number;
+}
+
+export interface DnsRecordTypes {
+  MX: MxAnswer;
+  // A TXT record is a list of character-strings (each at most 255 bytes)
+  TXT: string[];
+  A: string;
+  AAAA: string;
+}
+
+export type DnsRecordType = keyof DnsRecordTypes;
+
+export interface DnsAnswer<T extends DnsRecordType> {
+  records: Array<DnsRecordTypes[T]>;
+  // Seconds the answer may be cached, when the upstream reports it
+  ttl: number | null;
+}
+
+export interface DnsResolver {
+  query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>>;
+}
+
+// Codes follow Node's dns module: ENOTFOUND is NXDOMAIN, ENODATA is an empty answer
+export class DnsError extends Error {
+  constructor(
+    public readonly code: string,
+    name: string,
+    type: DnsRecordType,
+    // Negative-caching hint (RFC 2308), from the zone's SOA when available
+    public readonly ttl: number | null = null
+  ) {
+    super(`DNS ${type} lookup for ${name} failed: ${code}`);
+    this.name = 'DnsError';
+  }
+}
+
+const NEGATIVE_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/\.$/, '');
+
+// Operating system resolver, or the nameservers given in DNS_NAMESERVERS
+export class SystemDnsResolver implements DnsResolver {
+  private readonly resolver: Resolver;
+
+  constructor(options: { nameservers?: string[]; timeoutMs?: number } = {}) {
+    this.resolver = new Resolver({ timeout: options.timeoutMs ?? 5000, tries: 2 });
+    if (options.nameservers?.length) {
+      this.resolver.setServers(options.nameservers);
+    }
+  }
+
+  async query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> {
+    try {
+      return await this.lookup(normalizeName(name), type) as DnsAnswer<T>;
+    } catch (error) {
+      throw new DnsError((error as NodeJS.ErrnoException).code ?? 'EUNKNOWN', name, type);
+    }
+  }
+
+  private async lookup(name: string, type: DnsRecordType): Promise<DnsAnswer<DnsRecordType>> {
+    switch (type) {
+      case 'MX':
+        return { records: await this.resolver.resolveMx(name), ttl: null };
+      case 'TXT':
+        return { records: await this.resolver.resolveTxt(name), ttl: null };
+      case 'A':
+      case 'AAAA': {
+        const records = type === 'A'
+          ? await this.resolver.resolve4(name, { ttl: true })
+          : await this.resolver.resolve6(name, { ttl: true });
+        return {
+          records: records.map(record => record.address),
+          ttl: records.length ? Math.min(...records.map(record => record.ttl)) : null,
+        };
+      }
+    }
+  }
+}
+
+interface DohResponse {
+  Status: number;
+  Answer?: Array<{ type: number; TTL: number; data: string }>;
+  Authority?: Array<{ type: number; TTL: number; data: string }>;
+}
+
+const DOH_TYPES: Record<DnsRecordType, number> = { A: 1, MX: 15, TXT: 16, AAAA: 28 };
+const DOH_SOA_TYPE = 6;
+const DOH_STATUS_CODES: Record<number, string> = { 2: 'ESERVFAIL', 3: 'ENOTFOUND', 5: 'EREFUSED' };
+
+// DNS-over-HTTPS using the JSON API offered by Cloudflare, Google and others
+export class DohDnsResolver implements DnsResolver {
+  constructor(private readonly url: string, private readonly timeoutMs = 5000) {}
+
+  async query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> {
+    const target = new URL(this.url);
+    target.searchParams.set('name', normalizeName(name));
+    target.searchParams.set('type', type);
+
+    let body: DohResponse;
+    try {
+      const response = await fetch(target, {
+        headers: { accept: 'application/dns-json' },
+        signal: AbortSignal.timeout(this.timeoutMs),
+      });
+      if (!response.ok) {
+        throw new DnsError(response.status >= 500 ? 'ESERVFAIL' : 'EBADRESP', name, type);
+      }
+      body = await response.json() as DohResponse;
+    } catch (error) {
+      if (error instanceof DnsError) {
+        throw error;
+      }
+      const timedOut = error instanceof Error && error.name === 'TimeoutError';
+      throw new DnsError(timedOut ? 'ETIMEOUT' : 'ECONNREFUSED', name, type);
+    }
+
+    if (body.Status !== 0) {
+      throw new DnsError(DOH_STATUS_CODES[body.Status] ?? 'EBADRESP', name, type, this.negativeTtl(body));
+    }
+
+    // The answer section may also hold the CNAME chain that led to the records
+    const answers = (body.Answer ?? []).filter(answer => answer.type === DOH_TYPES[type]);
+    if (answers.length === 0) {
+      throw new DnsError('ENODATA', name, type, this.negativeTtl(body));
+    }
+
+    return {
+      records: answers.map(answer => this.parseData(type, answer.data)) as Array<DnsRecordTypes[T]>,
+      ttl: Math.min(...answers.map(answer => answer.TTL)),
+    };
+  }
+
+  private parseData(type: DnsRecordType, data: string): DnsRecordTypes[DnsRecordType] {
+    if (type === 'MX') {
+      const [priority = '0', exchange = ''] = data.trim().split(/\s+/);
+      return { priority: parseInt(priority), exchange: normalizeName(exchange) };
+    }
+    if (type === 'TXT') {
+      const chunks = [...data.matchAll(/"((?:[^"\\]|\\.)*)"/g)].map(match => (match[1] ?? '').replace(/\\(.)/g, '$1'));
+      return chunks.length ? chunks : [data];
+    }
+    return data;
+  }
+
+  // RFC 2308: negative answers live for min(SOA TTL, SOA minimum)
+  private negativeTtl(body: DohResponse): number | null {
+    const soa = body.Authority?.find(record => record.type === DOH_SOA_TYPE);
+    const minimum = soa ? parseInt(soa.data.trim().split(/\s+/).pop() ?? '') : NaN;
+    return soa && !Number.isNaN(minimum) ? Math.min(soa.TTL, minimum) : null;
+  }
+}
+
+type CachedDnsEntry =
+  | { records: unknown[]; ttl: number }
+  | { error: string };
+
+// Redis cache in front of another resolver. Positive answers keep their TTL (within
+// bounds); NXDOMAIN/NODATA are cached too. SERVFAIL and timeouts are never cached.
+export class CachingDnsResolver implements DnsResolver {
+  constructor(
+    private readonly upstream: DnsResolver,
+    private readonly options: DnsConfig['cache'] = loadDnsConfig().cache
+  ) {}
+
+  async query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> {
+    const key = normalizeName(name);
+
+    const cached: CachedDnsEntry | null = await cacheService.getDnsRecords(type, key);
+    if (cached) {
+      if ('error' in cached) {
+        throw new DnsError(cached.error, name, type);
+      }
+      return { records: cached.records as Array<DnsRecordTypes[T]>, ttl: cached.ttl };
+    }
+
+    try {
+      const answer = await this.upstream.query(key, type);
+      const ttl = this.clamp(answer.ttl ?? this.options.defaultTtl);
+      await cacheService.setDnsRecords(type, key, { records: answer.records, ttl }, ttl);
+      return answer;
+    } catch (error) {
+      if (error instanceof DnsError && NEGATIVE_CODES.has(error.code)) {
+        const ttl = this.clamp(Math.min(error.ttl ?? this.options.negativeTtl, this.options.negativeTtl));
+        await cacheService.setDnsRecords(type, key, { error: error.code }, ttl);
+      }
+      throw error;
+    }
+  }
+
+  private clamp(ttl: number): number {
+    return Math.max(this.options.minTtl, Math.min(this.options.maxTtl, ttl));
+  }
+}
+
+// Fixed zone data for tests and local development; records every query it answers
+export class InMemoryDnsResolver implements DnsResolver {
+  readonly queries: Array<{ name: string; type: DnsRecordType }> = [];
+  private readonly zones = new Map<string, Map<DnsRecordType, unknown[] | string>>();
+
+  setRecords<T extends DnsRecordType>(name: string, type: T, records: Array<DnsRecordTypes[T]>): this {
+    this.zone(name).set(type, records);
+    return this;
+  }
+
+  // e.g. setError('example.com', 'MX', 'ESERVFAIL')
+  setError(name: string, type: DnsRecordType, code: string): this {
+    this.zone(name).set(type, code);
+    return this;
+  }
+
+  async query<T extends DnsRecordType>(name: string, type: T): Promise<DnsAnswer<T>> {
+    const key = normalizeName(name);
+    this.queries.push({ name: key, type });
+
+    const zone = this.zones.get(key);
+    if (!zone) {
+      throw new DnsError('ENOTFOUND', name, type);
+    }
+
+    const entry = zone.get(type);
+    if (typeof entry === 'string') {
+      throw new DnsError(entry, name, type);
+    }
+    if (!entry || entry.length === 0) {
+      throw new DnsError('ENODATA', name, type);
+    }
+    return { records: entry as Array<DnsRecordTypes[T]>, ttl: null };
+  }
+
+  private zone(name: string): Map<DnsRecordType, unknown[] | string> {
+    const key = normalizeName(name);
+    let zone = this.zones.get(key);
+    if (!zone) {
+      zone = new Map();
+      this.zones.set(key, zone);
+    }
+    return zone;
+  }
+}
+
+// Address to connect to for a host name: IPv4 first, then IPv6
+export async function resolveHostAddress(resolver: DnsResolver, host: string): Promise<string> {
+  if (isIP(host)) {
+    return host;
+  }
+
+  try {
+    const { records } = await resolver.query(host, 'A');
+    if (records[0]) {
+      return records[0];
+    }
+  } catch (error) {
+    if (!(error instanceof DnsError && error.code === 'ENODATA')) {
+      throw error;
+    }
+  }
+
+  const { records } = await resolver.query(host, 'AAAA');
+  if (!records[0]) {
+    throw new DnsError('ENODATA', host, 'AAAA');
+  }
+  return records[0];
+}
+
+export function createDnsResolver(config: DnsConfig = loadDnsConfig()): DnsResolver {
+  const upstream = config.mode === 'doh'
+    ? new DohDnsResolver(config.dohUrl, config.timeoutMs)
+    : new SystemDnsResolver({ nameservers: config.nameservers, timeoutMs: config.timeoutMs });
+
+  return config.cache.enabled ? new CachingDnsResolver(upstream, config.cache) : upstream;
+}
+
+// Singleton instance shared by every DNS lookup in the process
+export const dnsResolver = createDnsResolver();
@@ -0,0 +1,279 @@
+import { cacheService } from './cache';
+import { MXRecord } from './emailValidation';
+import { MxProviderService, mxProviderService } from './mxProvider';
+import { DnsError, DnsResolver, dnsResolver } from './dnsResolver';
+
+export interface SpfRecord {
+  record: string;
+  includes: string[];
+  mechanisms: string[];
+  redirect?: string | undefined;
+  // Qualifier of the terminating "all" mechanism: -all, ~all, ?all or +all
+  all?: string | undefined;
+  // RFC 7208 treats more than one v=spf1 record as a permanent error
+  hasMultipleRecords: boolean;
+}
+
+export interface DmarcRecord {
+  record: string;
+  policy?: string | undefined;
+  subdomainPolicy?: string | undefined;
+  percentage: number;
+  aggregateReports: string[];
+  forensicReports: string[];
+  dkimAlignment: 'relaxed' | 'strict';
+  spfAlignment: 'relaxed' | 'strict';
+}
+
+export interface MtaStsRecord {
+  record: string;
+  id?: string | undefined;
+}
+
+export interface TlsRptRecord {
+  record: string;
+  reportUris: string[];
+}
+
+export interface BimiRecord {
+  record: string;
+  logoUrl?: string | undefined;
+  authorityUrl?: string | undefined;
+}
+
+export interface DkimSelector {
+  selector: string;
+  keyType: string;
+}
+
+export interface DomainIntelligence {
+  domain: string;
+  mx: {
+    records: MXRecord[];
+    provider?: string | undefined;
+    providerRuleId?: string | undefined;
+  };
+  spf: SpfRecord | null;
+  dmarc: DmarcRecord | null;
+  mtaSts: MtaStsRecord | null;
+  tlsRpt: TlsRptRecord | null;
+  bimi: BimiRecord | null;
+  dkim: DkimSelector[];
+  checkedAt: string;
+  errors: string[];
+}
+
+// Selectors used by the major senders; DKIM keys cannot be enumerated, only guessed
+const DKIM_SELECTORS = [
+  'google',
+  'selector1',
+  'selector2',
+  'default',
+  'dkim',
+  'mail',
+  'k1',
+  'k2',
+  's1',
+  's2',
+  'zoho',
+  'protonmail',
+  'mandrill',
+  'smtp',
+  'mxvault',
+];
+
+const INTELLIGENCE_TTL_SECONDS = 6 * 60 * 60;
+const NOT_FOUND_CODES = new Set(['ENOTFOUND', 'ENODATA']);
+
+export class DomainIntelligenceService {
+  constructor(
+    private readonly providers: MxProviderService = mxProviderService,
+    private readonly dns: DnsResolver = dnsResolver
+  ) {}
+
+  async lookup(domain: string): Promise<DomainIntelligence> {
+    const key = domain.toLowerCase();
+    const cached: DomainIntelligence | null = await cacheService.getDomainIntelligence(key);
+    if (cached) {
+      // Apply the current provider rules rather than the ones in force when this was cached
+      const records = this.providers.withCurrentProviders(cached.mx.records);
+      const provider = this.providers.detectProvider(records);
+      return { ...cached, mx: { records, provider: provider?.provider, providerRuleId: provider?.ruleId } };
+    }
+
+    const errors: string[] = [];
+    const txt = (name: string) => this.resolveTxtRecords(name, errors);
+
+    const [mxRecords, rootTxt, dmarcTxt, mtaStsTxt, tlsRptTxt, bimiTxt, dkim] = await Promise.all([
+      this.resolveMxRecords(key, errors),
+      txt(key),
+      txt(`_dmarc.${key}`),
+      txt(`_mta-sts.${key}`),
+      txt(`_smtp._tls.${key}`),
+      txt(`default._bimi.${key}`),
+      this.findDkimSelectors(key, errors),
+    ]);
+
+    const provider = this.providers.detectProvider(mxRecords);
+    const intelligence: DomainIntelligence = {
+      domain: key,
+      mx: {
+        records: mxRecords,
+        provider: provider?.provider,
+        providerRuleId: provider?.ruleId,
+      },
+      spf: this.parseSpf(rootTxt),
+      dmarc: this.parseDmarc(dmarcTxt),
+      mtaSts: this.parseMtaSts(mtaStsTxt),
+      tlsRpt: this.parseTlsRpt(tlsRptTxt),
+      bimi: this.parseBimi(bimiTxt),
+      dkim,
+      checkedAt: new Date().toISOString(),
+      errors,
+    };
+
+    // Lookups that failed outright are not worth caching for hours
+    await cacheService.setDomainIntelligence(key, intelligence, errors.length ? 60 : INTELLIGENCE_TTL_SECONDS);
+    return intelligence;
+  }
+
+  private parseSpf(records: string[]): SpfRecord | null {
+    const spf = records.filter(record => /^v=spf1(\s|$)/i.test(record));
+    const record = spf[0];
+    if (!record) {
+      return null;
+    }
+
+    const terms = record.split(/\s+/).slice(1);
+    const includes: string[] = [];
+    const mechanisms: string[] = [];
+    let redirect: string | undefined;
+    let all: string | undefined;
+
+    for (const term of terms) {
+      const lower = term.toLowerCase();
+      if (/^[-~?+]?include:/.test(lower)) {
+        includes.push(lower.slice(lower.indexOf(':') + 1));
+      } else if (lower.startsWith('redirect=')) {
+        redirect = lower.slice('redirect='.length);
+      } else if (/^[-~?+]?all$/.test(lower)) {
+        all = lower.length === 3 ? '+all' : lower;
+      }
+      if (term) {
+        mechanisms.push(term);
+      }
+    }
+
+    return { record, includes, mechanisms, redirect, all, hasMultipleRecords: spf.length > 1 };
+  }
+
+  private parseDmarc(records: string[]): DmarcRecord | null {
+    const record = records.find(value => /^v=DMARC1\s*(;|$)/i.test(value));
+    if (!record) {
+      return null;
+    }
+
+    const tags = this.parseTags(record);
+    const uris = (value?: string) => (value ? value.split(',').map(uri => uri.trim()).filter(Boolean) : []);
+
+    return {
+      record,
+      policy: tags['p'],
+      subdomainPolicy: tags['sp'] ?? tags['p'],
+      percentage: tags['pct'] ? parseInt(tags['pct']) : 100,
+      aggregateReports: uris(tags['rua']),
+      forensicReports: uris(tags['ruf']),
+      dkimAlignment: tags['adkim'] === 's' ? 'strict' : 'relaxed',
+      spfAlignment: tags['aspf'] === 's' ? 'strict' : 'relaxed',
+    };
+  }
+
+  private parseMtaSts(records: string[]): MtaStsRecord | null {
+    const record = records.find(value => /^v=STSv1\s*(;|$)/i.test(value));
+    return record ? { record, id: this.parseTags(record)['id'] } : null;
+  }
+
+  private parseTlsRpt(records: string[]): TlsRptRecord | null {
+    const record = records.find(value => /^v=TLSRPTv1\s*(;|$)/i.test(value));
+    if (!record) {
+      return null;
+    }
+    const rua = this.parseTags(record)['rua'] ?? '';
+    return { record, reportUris: rua.split(',').map(uri => uri.trim()).filter(Boolean) };
+  }
+
+  private parseBimi(records: string[]): BimiRecord | null {
+    const record = records.find(value => /^v=BIMI1\s*(;|$)/i.test(value));
+    if (!record) {
+      return null;
+    }
+    const tags = this.parseTags(record);
+    return { record, logoUrl: tags['l'] || undefined, authorityUrl: tags['a'] || undefined };
+  }
+
+  private async findDkimSelectors(domain: string, errors: string[]): Promise<DkimSelector[]> {
+    const found = await Promise.all(DKIM_SELECTORS.map(async (selector) => {
+      const records = await this.resolveTxtRecords(`${selector}._domainkey.${domain}`, errors);
+      const record = records.find(value => /(^|;)\s*(v=DKIM1|p=)/i.test(value));
+      if (!record) {
+        return null;
+      }
+      return { selector, keyType: this.parseTags(record)['k'] ?? 'rsa' };
+    }));
+    return found.filter((selector): selector is DkimSelector => selector !== null);
+  }
+
+  // Tag-value lists as used by DMARC, DKIM, MTA-STS, TLS-RPT and BIMI records
+  private parseTags(record: string): Record<string, string> {
+    const tags: Record<string, string> = {};
+    for (const part of record.split(';')) {
+      const separator = part.indexOf('=');
+      if (separator > 0) {
+        tags[part.slice(0, separator).trim().toLowerCase()] = part.slice(separator + 1).trim();
+      }
+    }
+    return tags;
+  }
+
+  private async resolveMxRecords(domain: string, errors: string[]): Promise<MXRecord[]> {
+    try {
+      const { records } = await this.dns.query(domain, 'MX');
+      return [...records]
+        .sort((a, b) => a.priority - b.priority)
+        .map(record => {
+          const match = this.providers.match(record.exchange);
+          return {
+            exchange: record.exchange,
+            priority: record.priority,
+            provider: match?.provider,
+            providerRuleId: match?.ruleId,
+          };
+        });
+    } catch (error) {
+      this.recordLookupError(domain, 'MX', error, errors);
+      return [];
+    }
+  }
+
+  // TXT records arrive as chunks of at most 255 characters; join each record's chunks
+  private async resolveTxtRecords(name: string, errors: string[]): Promise<string[]> {
+    try {
+      const { records } = await this.dns.query(name, 'TXT');
+      return records.map(chunks => chunks.join(''));
+    } catch (error) {
+      this.recordLookupError(name, 'TXT', error, errors);
+      return [];
+    }
+  }
+
+  // A missing record is an answer, not a failure
+  private recordLookupError(name: string, type: string, error: unknown, errors: string[]): void {
+    const code = error instanceof DnsError ? error.code : undefined;
+    if (!code || !NOT_FOUND_CODES.has(code)) {
+      errors.push(`${type} lookup failed for ${name}: ${code ?? error}`);
+    }
+  }
+}
+
+// Singleton instance
+export const domainIntelligenceService = new DomainIntelligenceService();
@@ -0,0 +1,151 @@
+import { db } from '../config/database';
+import { domainProfiles } from '../config/schema';
+import { cacheService } from './cache';
+import { DnsOutcome, MXRecord } from './emailValidation';
+
+export interface DomainProfile {
+  domain: string;
+  mxRecords: MXRecord[];
+  dnsOutcome?: DnsOutcome | undefined;
+  mxProvider?: string | undefined;
+  mxProviderRuleId?: string | undefined;
+  // null when the catch-all probe was skipped or inconclusive
+  isCatchAll: boolean | null;
+  catchAllProbed: boolean;
+  probedAt: string;
+  expiresAt: string;
+}
+
+export type DomainProfileData = Pick<DomainProfile, 'mxRecords' | 'dnsOutcome' | 'mxProvider' | 'mxProviderRuleId' | 'isCatchAll' | 'catchAllProbed'>;
+
+const PROFILE_TTL_SECONDS = parseInt(process.env['DOMAIN_PROFILE_TTL_HOURS'] || '24') * 60 * 60;
+// Inconclusive probes and domains without mail hosts are re-checked sooner
+const INCONCLUSIVE_TTL_SECONDS = 60 * 60;
+
+export class DomainProfileService {
+  private readonly inFlight = new Map<string, Promise<DomainProfile>>();
+
+  // Returns a fresh stored profile, or builds one with `compute`. Concurrent
+  // callers for the same domain share a single computation, as long as it
+  // probes catch-all status when they need it.
+  async resolve(
+    domain: string,
+    compute: () => Promise<DomainProfileData>,
+    options: { requireCatchAll: boolean }
+  ): Promise<DomainProfile> {
+    const key = domain.toLowerCase();
+
+    const stored = await this.getStored(key);
+    // Without mail hosts there is nothing to probe
+    if (stored && (stored.catchAllProbed || stored.mxRecords.length === 0 || !options.requireCatchAll)) {
+      return stored;
+    }
+
+    const probingKey = `${key}:catch-all`;
+    const pending = this.inFlight.get(probingKey) ?? (options.requireCatchAll ? undefined : this.inFlight.get(key));
+    if (pending) {
+      return pending;
+    }
+
+    const flightKey = options.requireCatchAll ? probingKey : key;
+    const computation = this.build(key, compute).finally(() => {
+      this.inFlight.delete(flightKey);
+    });
+    this.inFlight.set(flightKey, computation);
+    return computation;
+  }
+
+  async getStored(domain: string): Promise<DomainProfile | null> {
+    const cached: DomainProfile | null = await cacheService.getDomainProfile(domain);
+    if (cached && new Date(cached.expiresAt) > new Date()) {
+      return cached;
+    }
+
+    const row = await db.query.domainProfiles.findFirst({
+      where: (profiles, { eq, and, gt }) => and(
+        eq(profiles.domain, domain),
+        gt(profiles.expiresAt, new Date())
+      ),
+    }).catch((error) => {
+      console.error('Domain profile lookup error:', error);
+      return undefined;
+    });
+    if (!row) {
+      return null;
+    }
+
+    const profile: DomainProfile = {
+      domain: row.domain,
+      mxRecords: row.mxRecords,
+      dnsOutcome: (row.dnsOutcome as DnsOutcome | null) ?? undefined,
+      mxProvider: row.mxProvider ?? undefined,
+      mxProviderRuleId: row.mxProviderRuleId ?? undefined,
+      isCatchAll: row.isCatchAll,
+      catchAllProbed: row.catchAllProbed,
+      probedAt: row.probedAt.toISOString(),
+      expiresAt: row.expiresAt.toISOString(),
+    };
+    await cacheService.setDomainProfile(domain, profile, this.secondsUntil(row.expiresAt));
+    return profile;
+  }
+
+  private async build(domain: string, compute: () => Promise<DomainProfileData>): Promise<DomainProfile> {
+    const data = await compute();
+    const probedAt = new Date();
+    const isInconclusive = data.mxRecords.length === 0 || (data.catchAllProbed && data.isCatchAll === null);
+    const ttlSeconds = isInconclusive ? INCONCLUSIVE_TTL_SECONDS : PROFILE_TTL_SECONDS;
+    const expiresAt = new Date(probedAt.getTime() + ttlSeconds * 1000);
+
+    const profile: DomainProfile = {
+      domain,
+      ...data,
+      probedAt: probedAt.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+
+    await cacheService.setDomainProfile(domain, profile, ttlSeconds);
+
+    try {
+      await db.insert(domainProfiles)
+        .values({
+          domain,
+          mxRecords: data.mxRecords,
+          dnsOutcome: data.dnsOutcome ?? null,
+          mxProvider: data.mxProvider ?? null,
+          mxProviderRuleId: data.mxProviderRuleId ?? null,
+          isCatchAll: data.isCatchAll,
+          catchAllProbed: data.catchAllProbed,
+          probedAt,
+          expiresAt,
+          createdAt: probedAt,
+          updatedAt: probedAt,
+        })
+        .onConflictDoUpdate({
+          target: domainProfiles.domain,
+          set: {
+            mxRecords: data.mxRecords,
+            dnsOutcome: data.dnsOutcome ?? null,
+            mxProvider: data.mxProvider ?? null,
+            mxProviderRuleId: data.mxProviderRuleId ?? null,
+            isCatchAll: data.isCatchAll,
+            catchAllProbed: data.catchAllProbed,
+            probedAt,
+            expiresAt,
+            updatedAt: probedAt,
+          },
+        });
+    } catch (error) {
+      // Redis still holds the profile; persistence is best-effort
+      console.error('Domain profile persist error:', error);
+    }
+
+    return profile;
+  }
+
+  private secondsUntil(date: Date): number {
+    return Math.max(1, Math.floor((date.getTime() - Date.now()) / 1000));
+  }
+}
+
+// Singleton instance
+export const domainProfileService = new DomainProfileService();
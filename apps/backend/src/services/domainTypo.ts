@@ -0,0 +1,187 @@
+import { desc, eq, sql } from 'drizzle-orm';
+import { db } from '../config/database';
+import { emailValidations } from '../config/schema';
+import { freeProviders } from '../data/freeProviders';
+import { damerauLevenshtein } from '../utils/stringDistance';
+
+export interface DomainSuggestion {
+  email: string;
+  domain: string;
+  reason: 'tld-typo' | 'popular-provider' | 'known-domain';
+  // Confident enough to report an unchecked address as a likely typo
+  isStrongMatch: boolean;
+}
+
+// Mistyped top-level domains that are not registrable TLDs themselves
+const TLD_TYPOS: Record<string, string> = {
+  con: 'com',
+  cpm: 'com',
+  cmo: 'com',
+  ocm: 'com',
+  xom: 'com',
+  vom: 'com',
+  cim: 'com',
+  comm: 'com',
+  coom: 'com',
+  conm: 'com',
+  colm: 'com',
+  nte: 'net',
+  ner: 'net',
+  nett: 'net',
+  ogr: 'org',
+  rog: 'org',
+  orgg: 'org',
+  prg: 'org',
+};
+
+const MIN_NAME_LENGTH = 4;
+const STRONG_NAME_LENGTH = 5;
+const KNOWN_DOMAINS_REFRESH_MS = 15 * 60 * 1000;
+const MIN_KNOWN_VALIDATIONS = 2;
+const MAX_KNOWN_DOMAINS = 5000;
+
+interface SplitDomain {
+  name: string;
+  suffix: string;
+}
+
+const splitDomain = (domain: string): SplitDomain => {
+  const dot = domain.indexOf('.');
+  return { name: domain.slice(0, dot), suffix: domain.slice(dot + 1) };
+};
+
+export class DomainTypoService {
+  private readonly popular: Set<string>;
+  private knownDomains = new Set<string>();
+  private knownLoadedAt = 0;
+  private knownLoading: Promise<void> | null = null;
+
+  constructor(popularDomains: string[] = freeProviders) {
+    this.popular = new Set(popularDomains);
+  }
+
+  async suggest(localPart: string, domain: string): Promise<DomainSuggestion | null> {
+    const original = domain.toLowerCase();
+    if (!original.includes('.') || this.popular.has(original)) {
+      return null;
+    }
+
+    // example.con -> example.com; also feeds the provider check (gmial.con -> gmail.com)
+    const labels = original.split('.');
+    const tld = labels[labels.length - 1] ?? '';
+    const fixedTld = TLD_TYPOS[tld];
+    const candidate = fixedTld ? [...labels.slice(0, -1), fixedTld].join('.') : original;
+
+    const provider = this.closestPopular(candidate);
+    if (provider) {
+      return this.toSuggestion(localPart, provider.domain, 'popular-provider', provider.isStrong || !!fixedTld);
+    }
+    if (fixedTld) {
+      return this.toSuggestion(localPart, candidate, 'tld-typo', true);
+    }
+
+    const known = await this.closestKnown(original);
+    if (known) {
+      return this.toSuggestion(localPart, known, 'known-domain', false);
+    }
+
+    return null;
+  }
+
+  private closestPopular(domain: string): { domain: string; isStrong: boolean } | null {
+    if (this.popular.has(domain)) {
+      return { domain, isStrong: true };
+    }
+
+    const { name, suffix } = splitDomain(domain);
+    let best: { domain: string; distance: number } | null = null;
+
+    for (const popular of this.popular) {
+      const target = splitDomain(popular);
+      // Regional variants (hotmail.es vs hotmail.de) are real domains, not typos
+      if (target.suffix !== suffix || target.name.length < MIN_NAME_LENGTH) {
+        continue;
+      }
+
+      const maxDistance = target.name.length > 6 ? 2 : 1;
+      if (Math.abs(target.name.length - name.length) > maxDistance) {
+        continue;
+      }
+
+      const distance = damerauLevenshtein(name, target.name);
+      if (distance <= maxDistance && (!best || distance < best.distance)) {
+        best = { domain: popular, distance };
+      }
+    }
+
+    if (!best) {
+      return null;
+    }
+    const { name: bestName } = splitDomain(best.domain);
+    return { domain: best.domain, isStrong: best.distance === 1 && bestName.length >= STRONG_NAME_LENGTH };
+  }
+
+  // Near misses of company domains we have already verified mailboxes at
+  private async closestKnown(domain: string): Promise<string | null> {
+    const known = await this.getKnownDomains();
+    if (known.has(domain)) {
+      return null;
+    }
+
+    const { name, suffix } = splitDomain(domain);
+    if (name.length < STRONG_NAME_LENGTH) {
+      return null;
+    }
+
+    for (const knownDomain of known) {
+      const target = splitDomain(knownDomain);
+      if (target.suffix === suffix
+        && Math.abs(target.name.length - name.length) <= 1
+        && damerauLevenshtein(name, target.name) === 1) {
+        return knownDomain;
+      }
+    }
+    return null;
+  }
+
+  private async getKnownDomains(): Promise<Set<string>> {
+    if (Date.now() - this.knownLoadedAt > KNOWN_DOMAINS_REFRESH_MS) {
+      this.knownLoading = this.knownLoading ?? this.loadKnownDomains().finally(() => {
+        this.knownLoading = null;
+      });
+      await this.knownLoading;
+    }
+    return this.knownDomains;
+  }
+
+  private async loadKnownDomains(): Promise<void> {
+    try {
+      const rows = await db.select({ domain: emailValidations.domain })
+        .from(emailValidations)
+        .where(eq(emailValidations.isValid, true))
+        .groupBy(emailValidations.domain)
+        .having(sql`count(*) >= ${MIN_KNOWN_VALIDATIONS}`)
+        .orderBy(desc(sql`count(*)`))
+        .limit(MAX_KNOWN_DOMAINS);
+
+      this.knownDomains = new Set(rows.map(row => row.domain.toLowerCase()));
+    } catch (error) {
+      // Keep the previous list; typo detection against providers still works
+      console.error('Known domain load error:', error);
+    } finally {
+      this.knownLoadedAt = Date.now();
+    }
+  }
+
+  private toSuggestion(
+    localPart: string,
+    domain: string,
+    reason: DomainSuggestion['reason'],
+    isStrongMatch: boolean
+  ): DomainSuggestion {
+    return { email: `${localPart}@${domain}`, domain, reason, isStrongMatch };
+  }
+}
+
+// Singleton instance
+export const domainTypoService = new DomainTypoService();
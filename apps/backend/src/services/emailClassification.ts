@@ -0,0 +1,102 @@
+import { readFileSync } from 'fs';
+import { disposableDomains } from '../data/disposableDomains';
+import { freeProviders } from '../data/freeProviders';
+import { roleAccounts } from '../data/roleAccounts';
+
+export interface EmailClassification {
+  isDisposable: boolean;
+  isFreeProvider: boolean;
+  isRoleAccount: boolean;
+}
+
+// Entries loaded per list, bundled and from files
+export interface ClassificationListSizes {
+  disposable: number;
+  free: number;
+  roles: number;
+}
+
+// List files are re-read this often, so edits apply without a restart
+const LISTS_REFRESH_MS = 10 * 60 * 1000;
+
+export class EmailClassificationService {
+  private disposable = new Set<string>();
+  private free = new Set<string>();
+  private roles = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor() {
+    this.reload();
+  }
+
+  // Rebuild the lists from the bundled data plus any operator-provided files
+  reload(): ClassificationListSizes {
+    this.disposable = new Set([...disposableDomains, ...this.readListFile('DISPOSABLE_DOMAINS_FILE')]);
+    this.free = new Set([...freeProviders, ...this.readListFile('FREE_PROVIDERS_FILE')]);
+    this.roles = new Set([...roleAccounts, ...this.readListFile('ROLE_ACCOUNTS_FILE')]);
+    return { disposable: this.disposable.size, free: this.free.size, roles: this.roles.size };
+  }
+
+  start(intervalMs = LISTS_REFRESH_MS): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => this.reload(), intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  classify(email: string): EmailClassification {
+    const at = email.lastIndexOf('@');
+    const localPart = email.slice(0, at).toLowerCase();
+    const domain = email.slice(at + 1).toLowerCase();
+
+    return {
+      isDisposable: this.matchesDomain(this.disposable, domain),
+      isFreeProvider: this.free.has(domain),
+      isRoleAccount: this.isRoleLocalPart(localPart),
+    };
+  }
+
+  isRoleLocalPart(localPart: string): boolean {
+    // Ignore sub-addressing: support+billing@ is still the support mailbox
+    const base = localPart.toLowerCase().split('+')[0] ?? '';
+    return this.roles.has(base) || this.roles.has(base.replace(/[._-]/g, ''));
+  }
+
+  // Disposable services hand out subdomains too (e.g. x.mailinator.com)
+  private matchesDomain(list: Set<string>, domain: string): boolean {
+    const labels = domain.split('.');
+    for (let i = 0; i < labels.length - 1; i++) {
+      if (list.has(labels.slice(i).join('.'))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private readListFile(envVar: string): string[] {
+    const path = process.env[envVar];
+    if (!path) {
+      return [];
+    }
+
+    try {
+      return readFileSync(path, 'utf8')
+        .split(/\r?\n/)
+        .map(line => line.replace(/#.*$/, '').trim().toLowerCase())
+        .filter(Boolean);
+    } catch (error) {
+      console.error(`Failed to load ${envVar} (${path}):`, error);
+      return [];
+    }
+  }
+}
+
+// Singleton instance
+export const emailClassificationService = new EmailClassificationService();
@@ -1,11 +1,46 @@
 import { z } from 'zod';
+import { toAsciiDomain } from './emailSyntax';
+import { EmailValidationResult } from './emailValidation';
+import {
+  matchPatternTemplate,
+  parsePatternTemplate,
+  PatternField,
+  PatternMatch,
+  PatternNames,
+  PatternTemplateError,
+  PatternTemplateInput,
+  renderPatternTemplate,
+} from './patternTemplate';
+import { nicknames } from '../data/nicknames';
+import { surnames } from '../data/surnames';
+import {
+  createNameVariant,
+  NameVariant,
+  NameVariantOrigin,
+  normalizeNamePart,
+  normalizePersonName,
+} from './nameNormalization';
+import { isLearnableVerdict, PatternLearningService, PatternStats, patternLearningService } from './patternLearning';
+import { ConfidenceFactor, ConfidenceScore } from './confidenceScoring';
 
 export const EmailPatternInput = z.object({
-  domain: z.string().email().transform(email => email.split('@')[1]),
+  // A bare domain or any address at it; internationalized domains are converted to punycode
+  domain: z.string().transform((value, ctx) => {
+    const domain = toAsciiDomain(value);
+    if (!domain) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid domain: ${value}` });
+      return z.NEVER;
+    }
+    return domain;
+  }),
   firstName: z.string().min(1).max(50),
+  middleName: z.string().max(50).optional(),
   lastName: z.string().min(1).max(50),
   companyName: z.string().optional(),
-  customPatterns: z.array(z.string()).optional(),
+  // Templates such as "{first}.{last}" or "{f}{last}"
+  customPatterns: z.array(PatternTemplateInput).optional(),
+  // Also try nicknames of a formal first name, and the formal name behind a nickname
+  expandNicknames: z.boolean().optional(),
 });
 
 export type EmailPatternInput = z.infer<typeof EmailPatternInput>;
@@ -14,241 +49,640 @@ export interface EmailPattern {
   pattern: string;
   type: 'common' | 'custom' | 'domain-specific';
   confidence: number;
+  // Factors that add up to confidence
+  explanation: ConfidenceFactor[];
   example: string;
+  // Set when the address uses an alternative form of the name, e.g. the first of two surnames
+  nameVariant?: {
+    field: 'first' | 'last';
+    value: string;
+    origin: NameVariantOrigin;
+  };
+  // Set when verified results, rather than the heuristics, decided the confidence
+  learned?: {
+    scope: 'domain' | 'global';
+    successCount: number;
+    attemptCount: number;
+  };
+}
+
+export interface PatternPreview {
+  template: string;
+  isValid: boolean;
+  error?: string;
+  // Offset of the problem in the template
+  errorPosition?: number;
+  // Null when the template needs a name that was not given
+  localPart?: string | null;
+  example?: string | null;
+}
+
+export interface PatternSample {
+  email: string;
+  firstName: string;
+  middleName?: string | undefined;
+  lastName: string;
+}
+
+export interface PatternInference {
+  // Templates that explain at least one sample, most samples first
+  patterns: Array<{ pattern: string; sampleEmails: string[] }>;
+  // Samples no known template produces
+  unmatched: string[];
+  // Samples a template explains but the domain's mail server did not confirm; not stored
+  unverified: string[];
+}
+
+export interface NameParse {
+  firstName: string | null;
+  middleName: string | null;
+  lastName: string | null;
+  // Names of which only the initial or first letters are known
+  partial: PatternField[];
+  pattern: string;
+  confidence: number;
+  explanation: ConfidenceFactor[];
 }
 
+// Fewer global attempts than this are too little to override the heuristics
+const MIN_GLOBAL_ATTEMPTS = 20;
+// Given-name alternatives tried per person, to bound the number of candidates
+const MAX_NICKNAME_VARIANTS = 3;
+const MAX_NAME_PARSES = 10;
+
+const NAME_FIELDS: PatternField[] = ['first', 'middle', 'last'];
+
+const capitalize = (name: { value: string } | undefined) =>
+  name ? name.value.charAt(0).toUpperCase() + name.value.slice(1) : null;
+
 export class EmailPatternService {
+  // Only used when a middle name is given
+  private readonly middleNamePatterns = [
+    '{first}.{m}.{last}',
+    '{f}{m}{last}',
+    '{first}{m}{last}',
+  ];
+
+  // Formats that only surface once a domain has verified them
+  private readonly learnablePatterns = [
+    '{first}{last}',
+    '{last}.{first}',
+    '{last}{f}',
+  ];
+
   private readonly commonPatterns = [
-    'firstname.lastname',
-    'firstname_lastname',
-    'firstname-lastname',
-    'firstname.lastname',
-    'f.lastname',
-    'firstname.l',
-    'flastname',
-    'firstname',
-    'lastname',
-    'firstname.lastname',
-    'firstname_lastname',
-    'firstname-lastname',
-    'firstname.lastname',
-    'f.lastname',
-    'firstname.l',
-    'flastname',
-    'firstname',
-    'lastname',
+    '{first}.{last}',
+    '{first}_{last}',
+    '{first}-{last}',
+    '{f}.{last}',
+    '{first}.{l}',
+    '{f}{last}',
+    '{first}',
+    '{last}',
   ];
 
   private readonly domainSpecificPatterns: Record<string, string[]> = {
-    'google.com': ['firstname.lastname', 'firstname', 'lastname'],
-    'microsoft.com': ['firstname.lastname', 'firstname_lastname'],
-    'apple.com': ['firstname.lastname', 'firstname'],
-    'amazon.com': ['firstname.lastname', 'firstname_lastname'],
-    'meta.com': ['firstname.lastname', 'firstname'],
-    'netflix.com': ['firstname.lastname', 'firstname'],
-    'spotify.com': ['firstname.lastname', 'firstname'],
-    'uber.com': ['firstname.lastname', 'firstname'],
-    'airbnb.com': ['firstname.lastname', 'firstname'],
-    'twitter.com': ['firstname.lastname', 'firstname'],
-    'linkedin.com': ['firstname.lastname', 'firstname'],
-    'github.com': ['firstname.lastname', 'firstname'],
-    'stackoverflow.com': ['firstname.lastname', 'firstname'],
-    'reddit.com': ['firstname.lastname', 'firstname'],
-    'youtube.com': ['firstname.lastname', 'firstname'],
-    'instagram.com': ['firstname.lastname', 'firstname'],
-    'tiktok.com': ['firstname.lastname', 'firstname'],
-    'snapchat.com': ['firstname.lastname', 'firstname'],
-    'discord.com': ['firstname.lastname', 'firstname'],
-    'slack.com': ['firstname.lastname', 'firstname'],
-    'zoom.us': ['firstname.lastname', 'firstname'],
-    'salesforce.com': ['firstname.lastname', 'firstname'],
-    'oracle.com': ['firstname.lastname', 'firstname'],
-    'ibm.com': ['firstname.lastname', 'firstname'],
-    'intel.com': ['firstname.lastname', 'firstname'],
-    'nvidia.com': ['firstname.lastname', 'firstname'],
-    'amd.com': ['firstname.lastname', 'firstname'],
-    'cisco.com': ['firstname.lastname', 'firstname'],
-    'vmware.com': ['firstname.lastname', 'firstname'],
-    'adobe.com': ['firstname.lastname', 'firstname'],
-    'autodesk.com': ['firstname.lastname', 'firstname'],
-    'salesforce.com': ['firstname.lastname', 'firstname'],
-    'workday.com': ['firstname.lastname', 'firstname'],
-    'servicenow.com': ['firstname.lastname', 'firstname'],
-    'splunk.com': ['firstname.lastname', 'firstname'],
-    'palantir.com': ['firstname.lastname', 'firstname'],
-    'databricks.com': ['firstname.lastname', 'firstname'],
-    'snowflake.com': ['firstname.lastname', 'firstname'],
-    'mongodb.com': ['firstname.lastname', 'firstname'],
-    'redis.com': ['firstname.lastname', 'firstname'],
-    'elastic.co': ['firstname.lastname', 'firstname'],
-    'confluent.io': ['firstname.lastname', 'firstname'],
-    'kafka.apache.org': ['firstname.lastname', 'firstname'],
-    'apache.org': ['firstname.lastname', 'firstname'],
-    'nginx.com': ['firstname.lastname', 'firstname'],
-    'haproxy.com': ['firstname.lastname', 'firstname'],
-    'varnish-cache.org': ['firstname.lastname', 'firstname'],
-    'memcached.org': ['firstname.lastname', 'firstname'],
-    'cassandra.apache.org': ['firstname.lastname', 'firstname'],
-    'hbase.apache.org': ['firstname.lastname', 'firstname'],
-    'hadoop.apache.org': ['firstname.lastname', 'firstname'],
-    'spark.apache.org': ['firstname.lastname', 'firstname'],
-    'flink.apache.org': ['firstname.lastname', 'firstname'],
-    'storm.apache.org': ['firstname.lastname', 'firstname'],
-    'kafka.apache.org': ['firstname.lastname', 'firstname'],
-    'zookeeper.apache.org': ['firstname.lastname', 'firstname'],
-    'mesos.apache.org': ['firstname.lastname', 'firstname'],
-    'kubernetes.io': ['firstname.lastname', 'firstname'],
-    'docker.com': ['firstname.lastname', 'firstname'],
-    'rancher.com': ['firstname.lastname', 'firstname'],
-    'consul.io': ['firstname.lastname', 'firstname'],
-    'vault.hashicorp.com': ['firstname.lastname', 'firstname'],
-    'terraform.io': ['firstname.lastname', 'firstname'],
-    'packer.io': ['firstname.lastname', 'firstname'],
-    'vagrantup.com': ['firstname.lastname', 'firstname'],
-    'ansible.com': ['firstname.lastname', 'firstname'],
-    'chef.io': ['firstname.lastname', 'firstname'],
-    'puppet.com': ['firstname.lastname', 'firstname'],
-    'saltstack.com': ['firstname.lastname', 'firstname'],
-    'jenkins.io': ['firstname.lastname', 'firstname'],
-    'gitlab.com': ['firstname.lastname', 'firstname'],
-    'bitbucket.org': ['firstname.lastname', 'firstname'],
-    'atlassian.com': ['firstname.lastname', 'firstname'],
-    'jira.com': ['firstname.lastname', 'firstname'],
-    'confluence.com': ['firstname.lastname', 'firstname'],
-    'trello.com': ['firstname.lastname', 'firstname'],
-    'asana.com': ['firstname.lastname', 'firstname'],
-    'monday.com': ['firstname.lastname', 'firstname'],
-    'notion.so': ['firstname.lastname', 'firstname'],
-    'airtable.com': ['firstname.lastname', 'firstname'],
-    'smartsheet.com': ['firstname.lastname', 'firstname'],
-    'wrike.com': ['firstname.lastname', 'firstname'],
-    'clickup.com': ['firstname.lastname', 'firstname'],
-    'basecamp.com': ['firstname.lastname', 'firstname'],
-    'teamwork.com': ['firstname.lastname', 'firstname'],
-    'podio.com': ['firstname.lastname', 'firstname'],
-    'monday.com': ['firstname.lastname', 'firstname'],
-    'notion.so': ['firstname.lastname', 'firstname'],
-    'airtable.com': ['firstname.lastname', 'firstname'],
-    'smartsheet.com': ['firstname.lastname', 'firstname'],
-    'wrike.com': ['firstname.lastname', 'firstname'],
-    'clickup.com': ['firstname.lastname', 'firstname'],
-    'basecamp.com': ['firstname.lastname', 'firstname'],
-    'teamwork.com': ['firstname.lastname', 'firstname'],
-    'podio.com': ['firstname.lastname', 'firstname'],
+    'google.com': ['{first}.{last}', '{first}', '{last}'],
+    'microsoft.com': ['{first}.{last}', '{first}_{last}'],
+    'apple.com': ['{first}.{last}', '{first}'],
+    'amazon.com': ['{first}.{last}', '{first}_{last}'],
+    'meta.com': ['{first}.{last}', '{first}'],
+    'netflix.com': ['{first}.{last}', '{first}'],
+    'spotify.com': ['{first}.{last}', '{first}'],
+    'uber.com': ['{first}.{last}', '{first}'],
+    'airbnb.com': ['{first}.{last}', '{first}'],
+    'twitter.com': ['{first}.{last}', '{first}'],
+    'linkedin.com': ['{first}.{last}', '{first}'],
+    'github.com': ['{first}.{last}', '{first}'],
+    'stackoverflow.com': ['{first}.{last}', '{first}'],
+    'reddit.com': ['{first}.{last}', '{first}'],
+    'youtube.com': ['{first}.{last}', '{first}'],
+    'instagram.com': ['{first}.{last}', '{first}'],
+    'tiktok.com': ['{first}.{last}', '{first}'],
+    'snapchat.com': ['{first}.{last}', '{first}'],
+    'discord.com': ['{first}.{last}', '{first}'],
+    'slack.com': ['{first}.{last}', '{first}'],
+    'zoom.us': ['{first}.{last}', '{first}'],
+    'salesforce.com': ['{first}.{last}', '{first}'],
+    'oracle.com': ['{first}.{last}', '{first}'],
+    'ibm.com': ['{first}.{last}', '{first}'],
+    'intel.com': ['{first}.{last}', '{first}'],
+    'nvidia.com': ['{first}.{last}', '{first}'],
+    'amd.com': ['{first}.{last}', '{first}'],
+    'cisco.com': ['{first}.{last}', '{first}'],
+    'vmware.com': ['{first}.{last}', '{first}'],
+    'adobe.com': ['{first}.{last}', '{first}'],
+    'autodesk.com': ['{first}.{last}', '{first}'],
+    'salesforce.com': ['{first}.{last}', '{first}'],
+    'workday.com': ['{first}.{last}', '{first}'],
+    'servicenow.com': ['{first}.{last}', '{first}'],
+    'splunk.com': ['{first}.{last}', '{first}'],
+    'palantir.com': ['{first}.{last}', '{first}'],
+    'databricks.com': ['{first}.{last}', '{first}'],
+    'snowflake.com': ['{first}.{last}', '{first}'],
+    'mongodb.com': ['{first}.{last}', '{first}'],
+    'redis.com': ['{first}.{last}', '{first}'],
+    'elastic.co': ['{first}.{last}', '{first}'],
+    'confluent.io': ['{first}.{last}', '{first}'],
+    'kafka.apache.org': ['{first}.{last}', '{first}'],
+    'apache.org': ['{first}.{last}', '{first}'],
+    'nginx.com': ['{first}.{last}', '{first}'],
+    'haproxy.com': ['{first}.{last}', '{first}'],
+    'varnish-cache.org': ['{first}.{last}', '{first}'],
+    'memcached.org': ['{first}.{last}', '{first}'],
+    'cassandra.apache.org': ['{first}.{last}', '{first}'],
+    'hbase.apache.org': ['{first}.{last}', '{first}'],
+    'hadoop.apache.org': ['{first}.{last}', '{first}'],
+    'spark.apache.org': ['{first}.{last}', '{first}'],
+    'flink.apache.org': ['{first}.{last}', '{first}'],
+    'storm.apache.org': ['{first}.{last}', '{first}'],
+    'kafka.apache.org': ['{first}.{last}', '{first}'],
+    'zookeeper.apache.org': ['{first}.{last}', '{first}'],
+    'mesos.apache.org': ['{first}.{last}', '{first}'],
+    'kubernetes.io': ['{first}.{last}', '{first}'],
+    'docker.com': ['{first}.{last}', '{first}'],
+    'rancher.com': ['{first}.{last}', '{first}'],
+    'consul.io': ['{first}.{last}', '{first}'],
+    'vault.hashicorp.com': ['{first}.{last}', '{first}'],
+    'terraform.io': ['{first}.{last}', '{first}'],
+    'packer.io': ['{first}.{last}', '{first}'],
+    'vagrantup.com': ['{first}.{last}', '{first}'],
+    'ansible.com': ['{first}.{last}', '{first}'],
+    'chef.io': ['{first}.{last}', '{first}'],
+    'puppet.com': ['{first}.{last}', '{first}'],
+    'saltstack.com': ['{first}.{last}', '{first}'],
+    'jenkins.io': ['{first}.{last}', '{first}'],
+    'gitlab.com': ['{first}.{last}', '{first}'],
+    'bitbucket.org': ['{first}.{last}', '{first}'],
+    'atlassian.com': ['{first}.{last}', '{first}'],
+    'jira.com': ['{first}.{last}', '{first}'],
+    'confluence.com': ['{first}.{last}', '{first}'],
+    'trello.com': ['{first}.{last}', '{first}'],
+    'asana.com': ['{first}.{last}', '{first}'],
+    'monday.com': ['{first}.{last}', '{first}'],
+    'notion.so': ['{first}.{last}', '{first}'],
+    'airtable.com': ['{first}.{last}', '{first}'],
+    'smartsheet.com': ['{first}.{last}', '{first}'],
+    'wrike.com': ['{first}.{last}', '{first}'],
+    'clickup.com': ['{first}.{last}', '{first}'],
+    'basecamp.com': ['{first}.{last}', '{first}'],
+    'teamwork.com': ['{first}.{last}', '{first}'],
+    'podio.com': ['{first}.{last}', '{first}'],
+    'monday.com': ['{first}.{last}', '{first}'],
+    'notion.so': ['{first}.{last}', '{first}'],
+    'airtable.com': ['{first}.{last}', '{first}'],
+    'smartsheet.com': ['{first}.{last}', '{first}'],
+    'wrike.com': ['{first}.{last}', '{first}'],
+    'clickup.com': ['{first}.{last}', '{first}'],
+    'basecamp.com': ['{first}.{last}', '{first}'],
+    'teamwork.com': ['{first}.{last}', '{first}'],
+    'podio.com': ['{first}.{last}', '{first}'],
   };
 
-  generatePatterns(input: EmailPatternInput): EmailPattern[] {
-    const { domain, firstName, lastName, companyName, customPatterns } = input;
+  // Lowercase given name -> its nicknames (formal input) or formal names (nickname input)
+  private readonly givenNameIndex = new Map<string, NameVariant[]>();
+  private readonly surnameIndex: Set<string>;
+
+  constructor(
+    private readonly learning: PatternLearningService = patternLearningService,
+    nicknameDictionary: Record<string, string[]> = nicknames,
+    surnameList: string[] = surnames
+  ) {
+    this.surnameIndex = new Set(surnameList);
+    Object.entries(nicknameDictionary).forEach(([formal, shortForms]) => {
+      shortForms.forEach(shortForm => {
+        this.addGivenNameVariant(formal, createNameVariant(shortForm, 'nickname'));
+        this.addGivenNameVariant(shortForm, createNameVariant(formal, 'formal-name'));
+      });
+    });
+  }
+
+  async generatePatterns(input: EmailPatternInput): Promise<EmailPattern[]> {
+    const { domain, firstName, middleName, lastName, companyName, customPatterns, expandNicknames } = input;
     const patterns: EmailPattern[] = [];
 
-    // Normalize names
-    const first = firstName.toLowerCase().trim();
-    const last = lastName.toLowerCase().trim();
-    const firstInitial = first.charAt(0);
-    const lastInitial = last.charAt(0);
+    // Normalize names; nothing can be generated from a name with no usable letters
+    const normalized = normalizePersonName({ firstName, middleName, lastName });
+    const [first, ...otherFirsts] = normalized.first;
+    const [last, ...otherLasts] = normalized.last;
+    if (!first || !last) {
+      return [];
+    }
+
+    if (expandNicknames) {
+      otherFirsts.push(...this.getGivenNameVariants(first.value)
+        .filter(variant => !normalized.first.some(existing => existing.value === variant.value)));
+    }
+
+    const names: PatternNames = { first: first.value, last: last.value, middle: normalized.middle[0]?.value };
+    const addPattern = (pattern: string, type: EmailPattern['type'], adjust?: (score: ConfidenceScore) => ConfidenceScore) => {
+      const localPart = renderPatternTemplate(pattern, names);
+      if (localPart) {
+        const score = this.calculateConfidence(pattern, type, localPart);
+        patterns.push({ pattern, type, ...(adjust ? adjust(score) : score).summary(), example: `${localPart}@${domain}` });
+      }
+    };
 
     // Common patterns
     this.commonPatterns.forEach(pattern => {
-      const email = this.buildEmail(pattern, { first, last, firstInitial, lastInitial }, domain);
-      patterns.push({
-        pattern,
-        type: 'common',
-        confidence: this.calculateConfidence(pattern, 'common'),
-        example: email,
-      });
+      addPattern(pattern, 'common');
     });
 
+    // Middle-name patterns
+    if (names.middle) {
+      this.middleNamePatterns.forEach(pattern => {
+        addPattern(pattern, 'common', score => score
+          .add('pattern-source', -15, 'Middle names are rarely part of addresses'));
+      });
+    }
+
     // Domain-specific patterns
     const domainPatterns = this.domainSpecificPatterns[domain] || [];
     domainPatterns.forEach(pattern => {
-      const email = this.buildEmail(pattern, { first, last, firstInitial, lastInitial }, domain);
-      patterns.push({
-        pattern,
-        type: 'domain-specific',
-        confidence: this.calculateConfidence(pattern, 'domain-specific'),
-        example: email,
-      });
+      addPattern(pattern, 'domain-specific');
     });
 
     // Custom patterns
     if (customPatterns) {
       customPatterns.forEach(pattern => {
-        const email = this.buildEmail(pattern, { first, last, firstInitial, lastInitial }, domain);
-        patterns.push({
-          pattern,
-          type: 'custom',
-          confidence: this.calculateConfidence(pattern, 'custom'),
-          example: email,
-        });
+        addPattern(pattern, 'custom');
       });
     }
 
     // Company-specific patterns
     if (companyName) {
-      const company = companyName.toLowerCase().trim();
       const companyPatterns = [
-        `${first}.${last}`,
-        `${first}_${last}`,
-        `${first}-${last}`,
-        `${firstInitial}.${last}`,
-        `${first}.${lastInitial}`,
-        `${firstInitial}${last}`,
-        `${first}${last}`,
+        '{first}.{last}',
+        '{first}_{last}',
+        '{first}-{last}',
+        '{f}.{last}',
+        '{first}.{l}',
+        '{f}{last}',
+        '{first}{last}',
       ];
 
       companyPatterns.forEach(pattern => {
-        const email = this.buildEmail(pattern, { first, last, firstInitial, lastInitial }, domain);
-        patterns.push({
-          pattern,
-          type: 'domain-specific',
-          confidence: this.calculateConfidence(pattern, 'domain-specific') + 10,
-          example: email,
-        });
+        addPattern(pattern, 'domain-specific', score => score
+          .add('pattern-source', 10, `Usual corporate format for ${companyName}`));
       });
     }
 
+    // The same patterns with alternative name forms ("garcia" for "García-López"), ranked lower
+    const primaryPatterns = [...patterns];
+    const alternatives = [
+      ...otherFirsts.map(variant => ({ field: 'first' as const, variant })),
+      ...otherLasts.map(variant => ({ field: 'last' as const, variant })),
+    ];
+    alternatives.forEach(({ field, variant }) => {
+      const variantNames = { ...names, [field]: variant.value };
+      primaryPatterns.forEach(primary => {
+        const example = this.buildEmail(primary.pattern, variantNames, domain);
+        if (example) {
+          patterns.push({
+            ...primary,
+            ...ConfidenceScore.from(primary.explanation)
+              .add('name-variant', -variant.penalty, `${field === 'first' ? 'First' : 'Last'} name written as "${variant.value}" (${variant.origin})`)
+              .summary(),
+            example,
+            nameVariant: { field, value: variant.value, origin: variant.origin },
+          });
+        }
+      });
+    });
+
+    const [domainStats, globalStats] = await Promise.all([
+      this.learning.getDomainStats(domain),
+      this.learning.getGlobalStats(),
+    ]);
+
+    // Formats verified on this domain are candidates even when no heuristic suggests them
+    domainStats.forEach((stats, pattern) => {
+      if (stats.successCount > 0 && this.getLearnablePatterns().includes(pattern)) {
+        addPattern(pattern, 'domain-specific');
+      }
+    });
+
     // Remove duplicates and sort by confidence
     const uniquePatterns = patterns.filter((pattern, index, self) => 
       index === self.findIndex(p => p.example === pattern.example)
     );
 
-    return uniquePatterns.sort((a, b) => b.confidence - a.confidence);
+    return uniquePatterns
+      .map(pattern => this.applyLearnedStats(pattern, domainStats.get(pattern.pattern), globalStats.get(pattern.pattern)))
+      .sort((a, b) => b.confidence - a.confidence);
+  }
+
+  // Render templates for one person without generating or validating anything
+  previewPatterns(
+    templates: string[],
+    person: { firstName: string; lastName: string; middleName?: string | undefined },
+    domain?: string
+  ): PatternPreview[] {
+    const names: PatternNames = {
+      first: normalizeNamePart(person.firstName),
+      last: normalizeNamePart(person.lastName),
+      middle: person.middleName ? normalizeNamePart(person.middleName) : undefined,
+    };
+
+    return templates.map(template => {
+      try {
+        const localPart = renderPatternTemplate(parsePatternTemplate(template), names);
+        return {
+          template,
+          isValid: true,
+          localPart,
+          ...(domain ? { example: localPart ? `${localPart}@${domain}` : null } : {}),
+        };
+      } catch (error) {
+        if (error instanceof PatternTemplateError) {
+          return { template, isValid: false, error: error.message, errorPosition: error.position };
+        }
+        throw error;
+      }
+    });
+  }
+
+  // Patterns whose output is the address's local part, for any form of the name;
+  // several can match (e.g. a one-letter first name)
+  inferPatterns(email: string, person: { firstName: string; middleName?: string | undefined; lastName: string }): string[] {
+    const at = email.lastIndexOf('@');
+    const domain = email.slice(at + 1).toLowerCase();
+    const address = email.toLowerCase();
+    const normalized = normalizePersonName(person);
+    const middle = normalized.middle[0]?.value;
+
+    // "bill.smith" for William Smith still says the company uses {first}.{last}
+    const firsts = [...normalized.first, ...this.getGivenNameVariants(normalized.first[0]?.value ?? '')];
+
+    const matches = new Set<string>();
+    firsts.forEach(first => {
+      normalized.last.forEach(last => {
+        this.getLearnablePatterns()
+          .filter(pattern => this.buildEmail(pattern, { first: first.value, last: last.value, middle }, domain) === address)
+          .forEach(pattern => matches.add(pattern));
+      });
+    });
+    return [...matches];
+  }
+
+  // Likely names behind a local part: the inverse of generatePatterns
+  async parseLocalPart(localPart: string, domain: string): Promise<NameParse[]> {
+    const address = localPart.toLowerCase();
+    // "john.smith2": digits added to tell namesakes apart are not part of the name
+    const base = address.replace(/\d+$/, '');
+
+    const [domainStats, globalStats] = await Promise.all([
+      this.learning.getDomainStats(domain),
+      this.learning.getGlobalStats(),
+    ]);
+    const domainPatterns = this.domainSpecificPatterns[domain] || [];
+    const templates = new Set([...this.getLearnablePatterns(), ...domainPatterns, ...domainStats.keys()]);
+
+    const parses: NameParse[] = [];
+    templates.forEach(template => {
+      let matches: PatternMatch[];
+      try {
+        matches = matchPatternTemplate(template, base);
+      } catch {
+        // Stored rows written before patterns were templates
+        return;
+      }
+      if (matches.length === 0) {
+        return;
+      }
+
+      // How likely the domain is to use the template, as when generating
+      const type = domainPatterns.includes(template) ? 'domain-specific' : 'common';
+      const heuristic = this.calculateConfidence(template, type, base);
+      if (this.middleNamePatterns.includes(template)) {
+        heuristic.add('pattern-source', -15, 'Middle names are rarely part of addresses');
+      }
+      const prior = this.applyLearnedStats(
+        { pattern: template, type, ...heuristic.summary(), example: `${address}@${domain}` },
+        domainStats.get(template),
+        globalStats.get(template)
+      );
+
+      matches.forEach(match => {
+        const score = ConfidenceScore.from(prior.explanation);
+        if (base !== address) {
+          score.add('name-split', -5, 'Trailing digits ignored');
+        }
+        if (matches.length > 1) {
+          score.add('name-split', -15, `One of ${matches.length} ways to split the local part with this pattern`);
+        }
+
+        const first = match.first && !match.first.isPartial ? match.first.value : null;
+        const last = match.last && !match.last.isPartial ? match.last.value : null;
+        const knownFirst = first !== null && this.givenNameIndex.has(first);
+        if (knownFirst) {
+          score.add('name-split', 10, `"${first}" is a known given name`);
+        } else if (last && this.givenNameIndex.has(last)) {
+          score.add('name-split', -10, `"${last}" looks like a given name, not a surname`);
+        }
+
+        // "alex" as Al Ex, "jsmith" as H. Jsmit: splits that only fit the template
+        if (last && last.length <= 2) {
+          score.add('name-split', -25, `"${last}" is too short to be a surname`);
+        }
+        if ((first || last) && !knownFirst && !(last && this.surnameIndex.has(last))) {
+          score.add('name-split', -15, 'Neither part is a known name');
+        }
+
+        // "johnsmith" read as one name is more likely two run together
+        const runTogether = [first, last].find(name => name && this.startsWithGivenName(name));
+        if (runTogether) {
+          score.add('name-split', -15, `"${runTogether}" looks like several names run together`);
+        }
+
+        const partial = NAME_FIELDS.filter(field => match[field]?.isPartial);
+        partial.forEach(field => score.add('name-split', -5, `Only the start of the ${field} name is known`));
+        // "alex" on its own is a plausible address; "jsmith" as one name is not
+        if ((!match.first || !match.last) && !(knownFirst && first === base)) {
+          score.add('name-split', -10, 'Only one name in the address');
+        }
+
+        parses.push({
+          firstName: capitalize(match.first),
+          middleName: capitalize(match.middle),
+          lastName: capitalize(match.last),
+          partial,
+          pattern: template,
+          ...score.summary(),
+        });
+      });
+    });
+
+    // Several templates can give the same name; keep its best reading
+    return parses
+      .sort((a, b) => b.confidence - a.confidence)
+      .filter((parse, index, self) => index === self.findIndex(other =>
+        other.firstName === parse.firstName
+        && other.middleName === parse.middleName
+        && other.lastName === parse.lastName
+        && other.partial.join() === parse.partial.join()
+      ))
+      .slice(0, MAX_NAME_PARSES);
+  }
+
+  // Deduce the domain's conventions from real addresses and store them as its domain-specific
+  // patterns. Only samples with a learnable SMTP acceptance count, so a caller cannot plant
+  // patterns for a domain with made-up addresses. Validations are keyed by lowercased address.
+  async inferDomainPatterns(
+    domain: string,
+    samples: PatternSample[],
+    validations: Map<string, EmailValidationResult>,
+    domainIsCatchAll: boolean | null
+  ): Promise<PatternInference> {
+    const explained = new Map<string, string[]>();
+    const unmatched: string[] = [];
+    const unverified: string[] = [];
+
+    for (const sample of samples) {
+      const email = sample.email.trim().toLowerCase();
+      const patterns = this.inferPatterns(email, sample);
+      if (patterns.length === 0) {
+        unmatched.push(sample.email);
+        continue;
+      }
+
+      const validation = validations.get(email);
+      if (!validation?.isValid || !isLearnableVerdict(validation, domainIsCatchAll)) {
+        unverified.push(sample.email);
+        continue;
+      }
+
+      await this.learning.recordSample(domain, patterns, email);
+      patterns.forEach(pattern => explained.set(pattern, [...(explained.get(pattern) ?? []), email]));
+    }
+
+    return {
+      patterns: [...explained.entries()]
+        .map(([pattern, sampleEmails]) => ({ pattern, sampleEmails }))
+        .sort((a, b) => b.sampleEmails.length - a.sampleEmails.length),
+      unmatched,
+      unverified,
+    };
   }
 
-  private buildEmail(pattern: string, names: { first: string; last: string; firstInitial: string; lastInitial: string }, domain: string): string {
-    let email = pattern
-      .replace(/firstname/g, names.first)
-      .replace(/lastname/g, names.last)
-      .replace(/f\./g, names.firstInitial + '.')
-      .replace(/l\./g, names.lastInitial + '.')
-      .replace(/f/g, names.firstInitial)
-      .replace(/l/g, names.lastInitial);
+  // Feed a definitive SMTP verdict for a generated address back into the domain's pattern statistics
+  async learnFromValidation(
+    input: { domain: string; firstName: string; middleName?: string | undefined; lastName: string; email: string },
+    validation: EmailValidationResult,
+    domainIsCatchAll: boolean | null
+  ): Promise<void> {
+    if (!isLearnableVerdict(validation, domainIsCatchAll)) {
+      return;
+    }
+
+    const patterns = this.inferPatterns(input.email, input);
+    if (patterns.length === 0) {
+      return;
+    }
 
-    return `${email}@${domain}`;
+    try {
+      await this.learning.recordOutcome(input.domain, patterns, input.email, validation.isValid);
+    } catch (error) {
+      console.error('Pattern learning error:', error);
+    }
   }
 
-  private calculateConfidence(pattern: string, type: 'common' | 'custom' | 'domain-specific'): number {
-    let confidence = 50; // Base confidence
+  // Longer than, but starting with, a known given name of three letters or more
+  private startsWithGivenName(name: string): boolean {
+    if (this.givenNameIndex.has(name)) {
+      return false;
+    }
+    for (let length = 3; length <= name.length - 2; length++) {
+      if (this.givenNameIndex.has(name.slice(0, length))) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  private getGivenNameVariants(first: string): NameVariant[] {
+    return (this.givenNameIndex.get(first) ?? []).slice(0, MAX_NICKNAME_VARIANTS);
+  }
+
+  private addGivenNameVariant(name: string, variant: NameVariant): void {
+    const variants = this.givenNameIndex.get(name) ?? [];
+    if (!variants.some(existing => existing.value === variant.value)) {
+      variants.push(variant);
+      this.givenNameIndex.set(name, variants);
+    }
+  }
+
+  private getLearnablePatterns(): string[] {
+    return [...new Set([...this.commonPatterns, ...this.middleNamePatterns, ...this.learnablePatterns])];
+  }
+
+  // Evidence from the domain itself wins; otherwise well-sampled global rates temper the heuristic
+  private applyLearnedStats(pattern: EmailPattern, own: PatternStats | undefined, global: PatternStats | undefined): EmailPattern {
+    const score = ConfidenceScore.from(pattern.explanation);
+
+    if (own) {
+      const verified = `${own.successCount} of ${own.attemptCount} addresses verified on this domain`;
+      if (own.successCount > 0) {
+        // Failures count too: one hit in twenty attempts ranks far below one in one
+        score.adjustTo('learned-domain', 50 + Math.round(50 * own.successRate), verified);
+      } else {
+        score.adjustTo('learned-domain', Math.round(score.value * own.successRate), verified);
+      }
+      return {
+        ...pattern,
+        ...score.summary(),
+        learned: { scope: 'domain', successCount: own.successCount, attemptCount: own.attemptCount },
+      };
+    }
+
+    if (global && global.attemptCount >= MIN_GLOBAL_ATTEMPTS) {
+      return {
+        ...pattern,
+        ...score.adjustTo(
+          'learned-global',
+          Math.round((score.value + 100 * global.successRate) / 2),
+          `${global.successCount} of ${global.attemptCount} addresses verified across all domains`
+        ).summary(),
+        learned: { scope: 'global', successCount: global.successCount, attemptCount: global.attemptCount },
+      };
+    }
+
+    return pattern;
+  }
+
+  // Null when the template needs a name the person does not have
+  private buildEmail(pattern: string, names: PatternNames, domain: string): string | null {
+    const localPart = renderPatternTemplate(pattern, names);
+    return localPart ? `${localPart}@${domain}` : null;
+  }
+
+  // Heuristic prior: where the pattern comes from and how address-like its shape is.
+  // Length is measured on the rendered local part, not on the template's braces.
+  private calculateConfidence(pattern: string, type: 'common' | 'custom' | 'domain-specific', localPart: string): ConfidenceScore {
+    const score = new ConfidenceScore();
 
-    // Adjust based on pattern type
     switch (type) {
       case 'common':
-        confidence += 20;
+        score.add('pattern-source', 70, 'Common address format');
         break;
       case 'domain-specific':
-        confidence += 30;
+        score.add('pattern-source', 80, 'Known format for this domain');
         break;
       case 'custom':
-        confidence += 10;
+        score.add('pattern-source', 60, 'Format supplied with the request');
         break;
     }
 
-    // Adjust based on pattern complexity
-    if (pattern.includes('.')) confidence += 10;
-    if (pattern.includes('_')) confidence += 5;
-    if (pattern.includes('-')) confidence += 5;
-    if (pattern.length > 10) confidence += 5;
+    const shape = [
+      pattern.includes('.') ? 10 : 0,
+      pattern.includes('_') ? 5 : 0,
+      pattern.includes('-') ? 5 : 0,
+      localPart.length > 10 ? 5 : 0,
+    ].reduce((sum, points) => sum + points, 0);
+    if (shape > 0) {
+      score.add('pattern-shape', shape, 'Separators and full name parts');
+    }
 
-    return Math.min(confidence, 100);
+    return score;
   }
 }
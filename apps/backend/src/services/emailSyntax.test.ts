@@ -0,0 +1,86 @@
+import { parseEmailAddress, toAsciiDomain } from './emailSyntax';
+
+const codes = (input: string) => parseEmailAddress(input).errors.map(error => error.code);
+
+describe('parseEmailAddress', () => {
+  it('accepts a plain address and normalizes the domain', () => {
+    expect(parseEmailAddress(' John.Doe@Example.COM. ')).toMatchObject({
+      isValid: true,
+      localPart: 'John.Doe',
+      domain: 'example.com',
+      asciiDomain: 'example.com',
+      address: 'John.Doe@example.com',
+      isInternationalDomain: false,
+      requiresSmtpUtf8: false,
+      errors: [],
+    });
+  });
+
+  it('converts an internationalized domain to punycode for the wire', () => {
+    expect(parseEmailAddress('jose@münchen.de')).toMatchObject({
+      isValid: true,
+      asciiDomain: 'xn--mnchen-3ya.de',
+      unicodeDomain: 'münchen.de',
+      address: 'jose@xn--mnchen-3ya.de',
+      isInternationalDomain: true,
+    });
+    expect(parseEmailAddress('jose@xn--mnchen-3ya.de')).toMatchObject({ unicodeDomain: 'münchen.de', isInternationalDomain: true });
+  });
+
+  it('flags a non-ASCII local part as needing SMTPUTF8', () => {
+    expect(parseEmailAddress('josé@example.com')).toMatchObject({ isValid: true, requiresSmtpUtf8: true });
+  });
+
+  it('accepts quoted local parts and the full atext set', () => {
+    expect(codes('"john doe"@example.com')).toEqual([]);
+    expect(codes("o'brien+tag@example.com")).toEqual([]);
+    expect(codes('"john"doe"@example.com')).toEqual(['invalid_quoted_local_part']);
+  });
+
+  it.each([
+    ['john.example.com', 'missing_at_sign'],
+    ['@example.com', 'empty_local_part'],
+    ['john@', 'empty_domain'],
+    ['.john@example.com', 'invalid_dot_placement'],
+    ['john..doe@example.com', 'invalid_dot_placement'],
+    ['jo hn@example.com', 'invalid_local_part_character'],
+    [`${'a'.repeat(65)}@example.com`, 'local_part_too_long'],
+    ['john@[192.0.2.1]', 'address_literal_not_supported'],
+    ['john@192.0.2.1', 'invalid_tld'],
+    ['john@example.c', 'invalid_tld'],
+    ['john@localhost', 'missing_tld'],
+    ['john@-bad.example', 'invalid_domain_label'],
+    ['john@exa_mple.com', 'invalid_domain_label'],
+    [`john@${'a'.repeat(64)}.com`, 'domain_label_too_long'],
+  ])('rejects %s with %s', (input, code) => {
+    expect(codes(input)).toContain(code);
+    expect(parseEmailAddress(input).isValid).toBe(false);
+  });
+
+  it('names the offending character', () => {
+    expect(parseEmailAddress('john(doe)@example.com').errors[0]?.message).toContain('"("');
+  });
+
+  it('limits the whole address to 254 octets', () => {
+    const domain = `${Array.from({ length: 4 }, () => 'a'.repeat(60)).join('.')}.com`;
+
+    expect(codes(`${'j'.repeat(20)}@${domain}`)).toEqual(['address_too_long']);
+  });
+});
+
+describe('toAsciiDomain', () => {
+  it('takes a bare domain or an address', () => {
+    expect(toAsciiDomain('Example.com')).toBe('example.com');
+    expect(toAsciiDomain(' jane@Bücher.example ')).toBe('xn--bcher-kva.example');
+  });
+
+  it('ignores problems with the local part', () => {
+    expect(toAsciiDomain('jo hn@example.com')).toBe('example.com');
+  });
+
+  it('gives null for something that is not a domain', () => {
+    expect(toAsciiDomain('localhost')).toBeNull();
+    expect(toAsciiDomain('not a domain')).toBeNull();
+    expect(toAsciiDomain('jane@')).toBeNull();
+  });
+});
@@ -0,0 +1,175 @@
+import { domainToASCII, domainToUnicode } from 'url';
+
+export type SyntaxErrorCode =
+  | 'missing_at_sign'
+  | 'empty_local_part'
+  | 'empty_domain'
+  | 'address_too_long'
+  | 'local_part_too_long'
+  | 'invalid_local_part_character'
+  | 'invalid_dot_placement'
+  | 'invalid_quoted_local_part'
+  | 'address_literal_not_supported'
+  | 'domain_too_long'
+  | 'domain_label_too_long'
+  | 'invalid_domain_label'
+  | 'missing_tld'
+  | 'invalid_tld'
+  | 'invalid_international_domain';
+
+export interface SyntaxIssue {
+  code: SyntaxErrorCode;
+  message: string;
+}
+
+export interface ParsedEmailAddress {
+  isValid: boolean;
+  localPart: string;
+  // Domain as entered (lowercased), and its A-label (punycode) form used for DNS and SMTP
+  domain: string;
+  asciiDomain: string;
+  unicodeDomain: string;
+  // Address to use on the wire: local part with the ASCII domain
+  address: string;
+  isInternationalDomain: boolean;
+  // Non-ASCII local part: only deliverable through servers offering SMTPUTF8 (RFC 6531)
+  requiresSmtpUtf8: boolean;
+  errors: SyntaxIssue[];
+}
+
+// RFC 5322 atext, plus any non-ASCII character as allowed by RFC 6532
+const ATEXT = /^[A-Za-z0-9!#$%&'*+/=?^_`{|}~\u{80}-\u{10FFFF}-]+$/u;
+// RFC 5321 quoted-string content: printable ASCII except " and \, or a quoted pair
+const QUOTED_CONTENT = /^(?:[\x20\x21\x23-\x5B\x5D-\x7E\u{80}-\u{10FFFF}]|\\[\x20-\x7E])*$/u;
+const LDH_LABEL = /^[a-z0-9](?:[a-z0-9-]*[a-z0-9])?$/;
+
+const MAX_ADDRESS_OCTETS = 254;
+const MAX_LOCAL_PART_OCTETS = 64;
+const MAX_DOMAIN_OCTETS = 253;
+const MAX_LABEL_OCTETS = 63;
+
+const octets = (value: string) => Buffer.byteLength(value, 'utf8');
+
+export function parseEmailAddress(input: string): ParsedEmailAddress {
+  const raw = input.trim();
+  const errors: SyntaxIssue[] = [];
+  const fail = (code: SyntaxErrorCode, message: string) => errors.push({ code, message });
+
+  const at = raw.lastIndexOf('@');
+  const localPart = at === -1 ? raw : raw.slice(0, at);
+  const domain = at === -1 ? '' : raw.slice(at + 1).toLowerCase().replace(/\.$/, '');
+
+  const result: ParsedEmailAddress = {
+    isValid: false,
+    localPart,
+    domain,
+    asciiDomain: domain,
+    unicodeDomain: domain,
+    address: raw,
+    isInternationalDomain: false,
+    requiresSmtpUtf8: /[^\x00-\x7F]/.test(localPart),
+    errors,
+  };
+
+  if (at === -1) {
+    fail('missing_at_sign', 'Address must contain an @ sign');
+    return result;
+  }
+
+  validateLocalPart(localPart, fail);
+
+  if (!domain) {
+    fail('empty_domain', 'Domain part is empty');
+  } else if (domain.startsWith('[')) {
+    fail('address_literal_not_supported', 'IP address literals cannot be verified through MX records');
+  } else if (/(^|\.)\d+$/.test(domain)) {
+    fail('invalid_tld', `"${domain.split('.').pop()}" is not a valid top-level domain`);
+  } else {
+    const asciiDomain = domainToASCII(domain);
+    if (!asciiDomain) {
+      fail('invalid_international_domain', `Domain "${domain}" cannot be converted to punycode`);
+    } else {
+      result.asciiDomain = asciiDomain;
+      result.unicodeDomain = domainToUnicode(asciiDomain) || domain;
+      result.isInternationalDomain = asciiDomain.split('.').some(label => label.startsWith('xn--'));
+      validateDomain(asciiDomain, fail);
+    }
+  }
+
+  result.address = `${localPart}@${result.asciiDomain}`;
+  if (octets(result.address) > MAX_ADDRESS_OCTETS) {
+    fail('address_too_long', `Address exceeds ${MAX_ADDRESS_OCTETS} octets`);
+  }
+
+  result.isValid = errors.length === 0;
+  return result;
+}
+
+// Accepts a bare domain or a full address and returns the A-label form, or null when unusable
+export function toAsciiDomain(input: string): string | null {
+  const value = input.trim();
+  const parsed = parseEmailAddress(value.includes('@') ? value : `postmaster@${value}`);
+  const domainIssues = parsed.errors.filter(error => !LOCAL_PART_CODES.has(error.code));
+  return domainIssues.length === 0 ? parsed.asciiDomain : null;
+}
+
+const LOCAL_PART_CODES = new Set<SyntaxErrorCode>([
+  'empty_local_part',
+  'local_part_too_long',
+  'invalid_local_part_character',
+  'invalid_dot_placement',
+  'invalid_quoted_local_part',
+]);
+
+function validateLocalPart(localPart: string, fail: (code: SyntaxErrorCode, message: string) => void): void {
+  if (!localPart) {
+    fail('empty_local_part', 'Local part is empty');
+    return;
+  }
+
+  if (octets(localPart) > MAX_LOCAL_PART_OCTETS) {
+    fail('local_part_too_long', `Local part exceeds ${MAX_LOCAL_PART_OCTETS} octets`);
+  }
+
+  if (localPart.startsWith('"')) {
+    if (localPart.length < 2 || !localPart.endsWith('"') || !QUOTED_CONTENT.test(localPart.slice(1, -1))) {
+      fail('invalid_quoted_local_part', 'Quoted local part is malformed');
+    }
+    return;
+  }
+
+  if (localPart.startsWith('.') || localPart.endsWith('.') || localPart.includes('..')) {
+    fail('invalid_dot_placement', 'Local part cannot start or end with a dot or contain consecutive dots');
+  }
+
+  const invalid = localPart.split('.').filter(Boolean).find(atom => !ATEXT.test(atom));
+  if (invalid) {
+    const character = [...invalid].find(char => !ATEXT.test(char));
+    fail('invalid_local_part_character', `Local part contains an invalid character: "${character ?? invalid}"`);
+  }
+}
+
+function validateDomain(asciiDomain: string, fail: (code: SyntaxErrorCode, message: string) => void): void {
+  if (asciiDomain.length > MAX_DOMAIN_OCTETS) {
+    fail('domain_too_long', `Domain exceeds ${MAX_DOMAIN_OCTETS} octets`);
+  }
+
+  const labels = asciiDomain.split('.');
+  if (labels.length < 2) {
+    fail('missing_tld', 'Domain must include a top-level domain');
+    return;
+  }
+
+  for (const label of labels) {
+    if (label.length > MAX_LABEL_OCTETS) {
+      fail('domain_label_too_long', `Domain label "${label}" exceeds ${MAX_LABEL_OCTETS} characters`);
+    } else if (!LDH_LABEL.test(label)) {
+      fail('invalid_domain_label', `Domain label "${label}" must use letters, digits and inner hyphens only`);
+    }
+  }
+
+  const tld = labels[labels.length - 1] ?? '';
+  if (tld.length < 2) {
+    fail('invalid_tld', `"${tld}" is not a valid top-level domain`);
+  }
+}
@@ -1,9 +1,27 @@
-import { createConnection } from 'net';
-import { resolveMx } from 'dns/promises';
 import { z } from 'zod';
+import { SmtpClient, SmtpProbeResult, SmtpStageResult } from './smtpClient';
+import { SmtpIdentityPool, smtpIdentityPool } from './smtpIdentityPool';
+import { MxHostScheduler, mxHostScheduler } from './mxScheduler';
+import { DomainProfile, DomainProfileService, domainProfileService } from './domainProfile';
+import { EmailClassification, EmailClassificationService, emailClassificationService } from './emailClassification';
+import { ParsedEmailAddress, SyntaxIssue, parseEmailAddress } from './emailSyntax';
+import { DomainSuggestion, DomainTypoService, domainTypoService } from './domainTypo';
+import { MxProviderService, mxProviderService } from './mxProvider';
+import { DnsError, DnsResolver, MxAnswer, dnsResolver } from './dnsResolver';
+import { ConfidenceFactor, ConfidenceScore, applyClassificationFactors, scoreSmtpVerdict } from './confidenceScoring';
+import { VerificationEvidence } from './verificationProviders';
+import {
+  classifySmtpVerdict,
+  deliverability,
+  isRecipientLimitReply,
+  parseSmtpReply,
+  DeliverabilityReason,
+  DeliverabilityStatus,
+} from './deliverabilityStatus';
 
 export const EmailValidationInput = z.object({
-  email: z.string().email(),
+  // Grammar is checked by parseEmailAddress so internationalized addresses get through
+  email: z.string().trim().min(1).max(320),
   validateSmtp: z.boolean().default(true),
   checkCatchAll: z.boolean().default(true),
   timeout: z.number().default(5000),
@@ -11,330 +29,613 @@ export const EmailValidationInput = z.object({
 
 export type EmailValidationInput = z.infer<typeof EmailValidationInput>;
 
+// How the domain's mail hosts were determined (RFC 5321 section 5.1, RFC 7505)
+export type DnsOutcome =
+  | 'mx'           // MX records found
+  | 'implicit-mx'  // no MX, mail goes to the domain's A/AAAA address
+  | 'null-mx'      // "MX 0 ." - the domain explicitly accepts no mail
+  | 'nxdomain'     // the domain does not exist
+  | 'no-data'      // the domain exists but has no MX, A or AAAA records
+  | 'servfail'     // the authoritative servers failed to answer
+  | 'dns-error';   // timeout or other resolver failure
+
+export class DnsLookupError extends Error {
+  constructor(public readonly outcome: 'servfail' | 'dns-error', domain: string, code?: string) {
+    super(`Failed to resolve mail hosts for ${domain}: ${code ?? 'unknown error'}`);
+    this.name = 'DnsLookupError';
+  }
+}
+
 export interface MXRecord {
   exchange: string;
   priority: number;
+  // The domain itself, used as implicit MX because no MX records exist
+  isImplicit?: boolean | undefined;
   provider?: string | undefined;
+  // Id of the mx_provider_rules entry that identified the provider
+  providerRuleId?: string | undefined;
 }
 
-export interface EmailValidationResult {
+export interface EmailValidationResult extends EmailClassification {
   email: string;
   isValid: boolean;
+  // What the verdict means for sending, and the machine-readable cause
+  status: DeliverabilityStatus;
+  reason: DeliverabilityReason;
   isCatchAll: boolean;
+  // Server answered 4xx (e.g. greylisting); the verdict is pending a retry
+  isDeferred?: boolean | undefined;
   mxRecords: MXRecord[];
   mxProvider?: string | undefined;
+  mxProviderRuleId?: string | undefined;
+  dnsOutcome?: DnsOutcome | undefined;
   smtpResponse?: string | undefined;
+  smtpStages?: SmtpStageResult[] | undefined;
+  smtpIdentity?: SmtpIdentityUsed | undefined;
+  // When the domain's catch-all status was last probed
+  catchAllCheckedAt?: string | undefined;
   validationMethod: 'smtp' | 'mx-only' | 'format-only';
   confidence: number;
+  // Factors that add up to confidence
+  explanation?: ConfidenceFactor[] | undefined;
   errors?: string[] | undefined;
+  syntaxErrors?: SyntaxIssue[] | undefined;
+  // Punycode form of an internationalized domain, as used for DNS and SMTP
+  asciiDomain?: string | undefined;
+  requiresSmtpUtf8?: boolean | undefined;
+  // "Did you mean" correction for a likely mistyped domain
+  suggestion?: DomainSuggestion | undefined;
+  // Findings of external verification providers, when requested
+  verification?: VerificationEvidence[] | undefined;
+  linkedinVerified?: boolean | undefined;
 }
 
+export interface SmtpIdentityUsed {
+  id: string;
+  localAddress?: string | undefined;
+  heloHostname: string;
+  mailFrom: string;
+}
+
+interface SmtpValidationOutcome {
+  isValid: boolean;
+  isDeferred?: boolean | undefined;
+  response?: string | undefined;
+  // Set when the cause is known without a reply to classify
+  reason?: DeliverabilityReason | undefined;
+  errors?: string[] | undefined;
+  stages?: SmtpStageResult[] | undefined;
+  identity?: SmtpIdentityUsed | undefined;
+}
+
+export interface EmailBatchValidationInput {
+  emails: string[];
+  checkCatchAll: boolean;
+  timeout: number;
+  // Stop at the first deliverable address
+  stopOnValid: boolean;
+}
+
+type AddressingDetails = Pick<EmailValidationResult, 'asciiDomain' | 'requiresSmtpUtf8' | 'suggestion'>;
+
+// Address checked up to the point where an SMTP session is needed
+interface PreparedSmtpCheck {
+  email: string;
+  parsed: ParsedEmailAddress;
+  classification: EmailClassification;
+  addressing: AddressingDetails;
+  profile: DomainProfile;
+  dnsOutcome: DnsOutcome;
+  checkCatchAll: boolean;
+}
+
+// Servers commonly drop a session after a handful of unknown recipients
+const MAX_RECIPIENTS_PER_SESSION = 5;
+
+const NO_MAIL_HOST_REASONS: Partial<Record<DnsOutcome, DeliverabilityReason>> = {
+  'null-mx': 'null-mx',
+  nxdomain: 'domain-not-found',
+  'no-data': 'no-mail-host',
+};
+
+const NO_MAIL_HOST_ERRORS: Partial<Record<DnsOutcome, string>> = {
+  'null-mx': 'Domain does not accept email (null MX record)',
+  nxdomain: 'Domain does not exist',
+  'no-data': 'No MX, A or AAAA records found',
+};
+
 export class EmailValidationService {
-  private readonly mxProviders: Record<string, string> = {
-    'aspmx.l.google.com': 'Google Workspace',
-    'alt1.aspmx.l.google.com': 'Google Workspace',
-    'alt2.aspmx.l.google.com': 'Google Workspace',
-    'alt3.aspmx.l.google.com': 'Google Workspace',
-    'alt4.aspmx.l.google.com': 'Google Workspace',
-    'outlook.com': 'Microsoft 365',
-    'outlook.office365.com': 'Microsoft 365',
-    'mail.protection.outlook.com': 'Microsoft 365',
-    'zoho.com': 'Zoho',
-    'zoho.eu': 'Zoho',
-    'zoho.in': 'Zoho',
-    'zoho.com.au': 'Zoho',
-    'zoho.com.cn': 'Zoho',
-    'zoho.com.jp': 'Zoho',
-    'zoho.com.sg': 'Zoho',
-    'zoho.com.my': 'Zoho',
-    'zoho.com.ph': 'Zoho',
-    'zoho.com.tw': 'Zoho',
-    'zoho.com.hk': 'Zoho',
-    'zoho.com.kr': 'Zoho',
-    'zoho.com.th': 'Zoho',
-    'zoho.com.vn': 'Zoho',
-    'zoho.com.id': 'Zoho',
-    'zoho.com.bd': 'Zoho',
-    'zoho.com.lk': 'Zoho',
-    'zoho.com.np': 'Zoho',
-    'zoho.com.pk': 'Zoho',
-    'zoho.com.af': 'Zoho',
-    'zoho.com.ir': 'Zoho',
-    'zoho.com.iq': 'Zoho',
-    'zoho.com.sa': 'Zoho',
-    'zoho.com.ae': 'Zoho',
-    'zoho.com.eg': 'Zoho',
-    'zoho.com.ma': 'Zoho',
-    'zoho.com.tn': 'Zoho',
-    'zoho.com.dz': 'Zoho',
-    'zoho.com.ly': 'Zoho',
-    'zoho.com.sd': 'Zoho',
-    'zoho.com.et': 'Zoho',
-    'zoho.com.ke': 'Zoho',
-    'zoho.com.ug': 'Zoho',
-    'zoho.com.tz': 'Zoho',
-    'zoho.com.rw': 'Zoho',
-    'zoho.com.bi': 'Zoho',
-    'zoho.com.mg': 'Zoho',
-    'zoho.com.mu': 'Zoho',
-    'zoho.com.sc': 'Zoho',
-    'zoho.com.km': 'Zoho',
-    'zoho.com.dj': 'Zoho',
-    'zoho.com.so': 'Zoho',
-    'zoho.com.er': 'Zoho',
-    'zoho.com.ss': 'Zoho',
-    'zoho.com.cf': 'Zoho',
-    'zoho.com.td': 'Zoho',
-    'zoho.com.cm': 'Zoho',
-    'zoho.com.ga': 'Zoho',
-    'zoho.com.cg': 'Zoho',
-    'zoho.com.cd': 'Zoho',
-    'zoho.com.ao': 'Zoho',
-    'zoho.com.zm': 'Zoho',
-    'zoho.com.zw': 'Zoho',
-    'zoho.com.bw': 'Zoho',
-    'zoho.com.na': 'Zoho',
-    'zoho.com.sz': 'Zoho',
-    'zoho.com.ls': 'Zoho',
-    'zoho.com.mz': 'Zoho',
-    'amazonaws.com': 'AWS SES',
-    'mimecast.com': 'Mimecast',
-    'mimecast.net': 'Mimecast',
-    'proofpoint.com': 'Proofpoint',
-    'proofpoint.net': 'Proofpoint',
-    'barracuda.com': 'Barracuda',
-    'barracudanetworks.com': 'Barracuda',
-    'symantec.com': 'Symantec',
-    'broadcom.com': 'Broadcom',
-    'trendmicro.com': 'Trend Micro',
-    'mcafee.com': 'McAfee',
-    'sophos.com': 'Sophos',
-    'kaspersky.com': 'Kaspersky',
-    'eset.com': 'ESET',
-    'avast.com': 'Avast',
-    'avg.com': 'AVG',
-    'norton.com': 'Norton',
-    'bitdefender.com': 'Bitdefender',
-    'malwarebytes.com': 'Malwarebytes',
-    'webroot.com': 'Webroot',
-    'panda.com': 'Panda',
-    'f-secure.com': 'F-Secure',
-    'gdata.com': 'G Data',
-    'emsisoft.com': 'Emsisoft',
-    'adaware.com': 'Ad-Aware',
-    'superantispyware.com': 'SUPERAntiSpyware',
-    'spybot.com': 'Spybot',
-    'spywareblaster.com': 'SpywareBlaster',
-    'spywareterminator.com': 'Spyware Terminator',
-    'spywarenuker.com': 'Spyware Nuker',
-    'spywaredoctor.com': 'Spyware Doctor',
-    'spywareguard.com': 'Spyware Guard',
-    'spywarehunter.com': 'Spyware Hunter',
-    'spywarekiller.com': 'Spyware Killer',
-    'spywarepreventer.com': 'Spyware Preventer',
-    'spywareremover.com': 'Spyware Remover',
-    'spywarescanner.com': 'Spyware Scanner',
-    'spywareshield.com': 'Spyware Shield',
-    'spywarestopper.com': 'Spyware Stopper',
-    'spywaretracker.com': 'Spyware Tracker',
-    'spywarewarrior.com': 'Spyware Warrior',
-    'spywarezapper.com': 'Spyware Zapper',
-  };
+  private readonly smtpClient: SmtpClient;
+
+  constructor(
+    private readonly identityPool: SmtpIdentityPool = smtpIdentityPool,
+    private readonly scheduler: MxHostScheduler = mxHostScheduler,
+    private readonly profiles: DomainProfileService = domainProfileService,
+    private readonly classifier: EmailClassificationService = emailClassificationService,
+    private readonly typos: DomainTypoService = domainTypoService,
+    private readonly providers: MxProviderService = mxProviderService,
+    private readonly dns: DnsResolver = dnsResolver
+  ) {
+    this.smtpClient = new SmtpClient(dns);
+  }
 
   async validateEmail(input: EmailValidationInput): Promise<EmailValidationResult> {
-    const { email, validateSmtp, checkCatchAll, timeout } = input;
-    const domain = email.split('@')[1];
-    if (!domain) {
-      throw new Error('Invalid email format');
+    const prepared = await this.prepare(input);
+    if ('result' in prepared) {
+      return prepared.result;
     }
-    const errors: string[] = [];
 
+    const { check } = prepared;
     try {
-      // Get MX records
-      const mxRecords = await this.getMXRecords(domain);
-      if (mxRecords.length === 0) {
-        return {
+      const smtpResult = await this.validateSMTP(
+        check.parsed.address,
+        check.profile.mxRecords,
+        input.timeout,
+        check.parsed.requiresSmtpUtf8
+      );
+      return this.toSmtpResult(check, smtpResult);
+    } catch (error) {
+      return this.toFailedResult(check.email, check.classification, check.addressing, error);
+    }
+  }
+
+  // Several addresses in order, sharing SMTP sessions: each connection asks up to
+  // MAX_RECIPIENTS_PER_SESSION recipients. With stopOnValid, nothing is asked after the
+  // first accepted address, and addresses never asked about are missing from the result.
+  async validateEmails(input: EmailBatchValidationInput): Promise<Map<string, EmailValidationResult>> {
+    const { emails, checkCatchAll, timeout, stopOnValid } = input;
+    const results = new Map<string, EmailValidationResult>();
+
+    // Syntax, DNS and typo verdicts cost no SMTP traffic, so they are settled for every address
+    const groups = new Map<string, PreparedSmtpCheck[]>();
+    for (const email of emails) {
+      const prepared = await this.prepare({ email, validateSmtp: true, checkCatchAll, timeout });
+      if ('result' in prepared) {
+        results.set(email, prepared.result);
+        continue;
+      }
+      // SMTPUTF8 is negotiated per transaction, so those recipients go in their own sessions
+      const key = `${prepared.check.parsed.asciiDomain}:${prepared.check.parsed.requiresSmtpUtf8}`;
+      groups.set(key, [...(groups.get(key) ?? []), prepared.check]);
+    }
+
+    for (const checks of groups.values()) {
+      for (let start = 0; start < checks.length; start += MAX_RECIPIENTS_PER_SESSION) {
+        const chunk = checks.slice(start, start + MAX_RECIPIENTS_PER_SESSION);
+        const [first] = chunk;
+        if (!first) {
+          continue;
+        }
+
+        try {
+          const outcomes = await this.validateSMTPBatch(
+            chunk.map(check => check.parsed.address),
+            first.profile.mxRecords,
+            timeout,
+            first.parsed.requiresSmtpUtf8,
+            stopOnValid
+          );
+          for (const check of chunk) {
+            const outcome = outcomes.get(check.parsed.address);
+            if (outcome) {
+              results.set(check.email, this.toSmtpResult(check, outcome));
+            }
+          }
+        } catch (error) {
+          chunk.forEach(check => {
+            results.set(check.email, this.toFailedResult(check.email, check.classification, check.addressing, error));
+          });
+        }
+
+        if (stopOnValid && [...results.values()].some(result => result.isValid)) {
+          return results;
+        }
+      }
+    }
+
+    return results;
+  }
+
+  // Everything before the SMTP dialogue; settles the verdict when no SMTP check is needed
+  private async prepare(input: EmailValidationInput): Promise<{ result: EmailValidationResult } | { check: PreparedSmtpCheck }> {
+    const { validateSmtp, checkCatchAll, timeout } = input;
+    const email = input.email.trim();
+
+    // Syntax first: nothing below is worth a DNS lookup for a malformed address
+    const parsed = parseEmailAddress(email);
+    const classification = this.classifier.classify(parsed.address);
+    if (!parsed.isValid) {
+      return {
+        result: {
           email,
           isValid: false,
+          ...deliverability('invalid-syntax'),
           isCatchAll: false,
+          ...classification,
           mxRecords: [],
-          validationMethod: 'mx-only',
-          confidence: 0,
-          errors: ['No MX records found'],
+          validationMethod: 'format-only',
+          ...new ConfidenceScore().add('syntax', 0, 'Address is not syntactically valid').summary(),
+          errors: parsed.errors.map(error => error.message),
+          syntaxErrors: parsed.errors,
+        },
+      };
+    }
+
+    const domain = parsed.asciiDomain;
+    const suggestion = await this.typos.suggest(parsed.localPart, domain);
+    const addressing: AddressingDetails = {
+      asciiDomain: parsed.isInternationalDomain ? domain : undefined,
+      requiresSmtpUtf8: parsed.requiresSmtpUtf8 || undefined,
+      suggestion: suggestion ?? undefined,
+    };
+
+    try {
+      // MX set and catch-all status are shared by every address at the domain
+      const profile = await this.getDomainProfile(domain, {
+        timeout,
+        probeCatchAll: validateSmtp && checkCatchAll,
+      });
+      const { mxRecords, mxProvider, mxProviderRuleId } = profile;
+      const dnsOutcome = profile.dnsOutcome ?? (mxRecords.length > 0 ? 'mx' : 'no-data');
+      if (mxRecords.length === 0) {
+        const error = NO_MAIL_HOST_ERRORS[dnsOutcome] ?? 'No MX records found';
+        return {
+          result: {
+            email,
+            isValid: false,
+            ...deliverability(NO_MAIL_HOST_REASONS[dnsOutcome] ?? 'no-mail-host'),
+            isCatchAll: false,
+            ...classification,
+            ...addressing,
+            mxRecords: [],
+            dnsOutcome,
+            validationMethod: 'mx-only',
+            ...new ConfidenceScore().add('mail-host', 0, error).summary(),
+            errors: [error],
+          },
         };
       }
 
-      // Determine MX provider
-      const mxProvider = this.detectMXProvider(mxRecords);
-
+      // A domain that receives mail is checked like any other: cloud.com is only one
+      // letter away from icloud.com, yet real. The suggestion rides along.
       if (!validateSmtp) {
+        const score = new ConfidenceScore().add('mail-host', 70, 'Domain has mail hosts; mailbox not checked');
+        if (suggestion?.isStrongMatch) {
+          score.add('typo', -30, `Domain looks like a typo of ${suggestion.domain}`);
+        }
         return {
-          email,
-          isValid: true,
-          isCatchAll: false,
-          mxRecords,
-          mxProvider,
-          validationMethod: 'mx-only',
-          confidence: 70,
+          result: {
+            email,
+            isValid: true,
+            // Without a mailbox check, a likely typo is the more useful warning
+            ...deliverability(suggestion?.isStrongMatch ? 'possible-typo' : 'not-checked'),
+            isCatchAll: false,
+            ...classification,
+            ...addressing,
+            mxRecords,
+            mxProvider,
+            mxProviderRuleId,
+            dnsOutcome,
+            validationMethod: 'mx-only',
+            ...applyClassificationFactors(score, classification).summary(),
+          },
         };
       }
 
-      // Perform SMTP validation
-      const smtpResult = await this.validateSMTP(email, mxRecords, timeout);
-      
-      // Check for catch-all if requested
-      let isCatchAll = false;
-      if (checkCatchAll) {
-        isCatchAll = await this.checkCatchAll(domain, mxRecords, timeout);
-      }
+      return { check: { email, parsed, classification, addressing, profile, dnsOutcome, checkCatchAll } };
 
-      return {
-        email,
+    } catch (error) {
+      return { result: this.toFailedResult(email, classification, addressing, error) };
+    }
+  }
+
+  private toSmtpResult(check: PreparedSmtpCheck, smtpResult: SmtpValidationOutcome): EmailValidationResult {
+    const { email, classification, addressing, profile, dnsOutcome, checkCatchAll } = check;
+    const isCatchAll = checkCatchAll ? profile.isCatchAll === true : false;
+
+    return {
+      email,
+      isValid: smtpResult.isValid,
+      ...(smtpResult.reason ? deliverability(smtpResult.reason) : classifySmtpVerdict({
         isValid: smtpResult.isValid,
+        isDeferred: smtpResult.isDeferred,
         isCatchAll,
-        mxRecords,
-        mxProvider,
-        smtpResponse: smtpResult.response,
-        validationMethod: 'smtp',
-        confidence: this.calculateConfidence(smtpResult.isValid, isCatchAll, mxRecords.length),
-        errors: smtpResult.errors,
-      };
+        isDisposable: classification.isDisposable,
+        response: smtpResult.response,
+      })),
+      isCatchAll,
+      isDeferred: smtpResult.isDeferred,
+      ...classification,
+      ...addressing,
+      mxRecords: profile.mxRecords,
+      mxProvider: profile.mxProvider,
+      mxProviderRuleId: profile.mxProviderRuleId,
+      dnsOutcome,
+      smtpResponse: smtpResult.response,
+      smtpStages: smtpResult.stages,
+      smtpIdentity: smtpResult.identity,
+      catchAllCheckedAt: checkCatchAll ? profile.probedAt : undefined,
+      validationMethod: 'smtp',
+      ...applyClassificationFactors(scoreSmtpVerdict({
+        isValid: smtpResult.isValid,
+        isCatchAll,
+        response: smtpResult.response,
+        mxCount: profile.mxRecords.length,
+        mxProvider: profile.mxProvider,
+      }), classification).summary(),
+      errors: smtpResult.errors,
+    };
+  }
+
+  private toFailedResult(
+    email: string,
+    classification: EmailClassification,
+    addressing: AddressingDetails,
+    error: unknown
+  ): EmailValidationResult {
+    return {
+      email,
+      isValid: false,
+      ...deliverability(error instanceof DnsLookupError ? 'dns-failure' : 'smtp-unavailable'),
+      isCatchAll: false,
+      ...classification,
+      ...addressing,
+      mxRecords: [],
+      dnsOutcome: error instanceof DnsLookupError ? error.outcome : undefined,
+      validationMethod: 'smtp',
+      ...new ConfidenceScore().add('mail-host', 0, 'Validation did not complete').summary(),
+      errors: [error instanceof Error ? error.message : 'Unknown error'],
+    };
+  }
+
+  // Cached per-domain facts; the catch-all probe runs at most once per domain until the profile expires.
+  // The provider is matched again on every read so rule edits apply to cached profiles too
+  async getDomainProfile(domain: string, options: { timeout: number; probeCatchAll: boolean }): Promise<DomainProfile> {
+    const profile = await this.profiles.resolve(domain, async () => {
+      const { outcome: dnsOutcome, records: mxRecords } = await this.getMXRecords(domain);
+      const provider = this.providers.detectProvider(mxRecords);
+
+      const catchAllProbed = options.probeCatchAll && mxRecords.length > 0;
+      const isCatchAll = catchAllProbed ? await this.checkCatchAll(domain, mxRecords, options.timeout) : null;
 
-    } catch (error) {
-      errors.push(error instanceof Error ? error.message : 'Unknown error');
       return {
-        email,
-        isValid: false,
-        isCatchAll: false,
-        mxRecords: [],
-        validationMethod: 'smtp',
-        confidence: 0,
-        errors,
+        mxRecords,
+        dnsOutcome,
+        mxProvider: provider?.provider,
+        mxProviderRuleId: provider?.ruleId,
+        isCatchAll,
+        catchAllProbed,
       };
-    }
+    }, { requireCatchAll: options.probeCatchAll });
+
+    const mxRecords = this.providers.withCurrentProviders(profile.mxRecords);
+    const provider = this.providers.detectProvider(mxRecords);
+    return { ...profile, mxRecords, mxProvider: provider?.provider, mxProviderRuleId: provider?.ruleId };
   }
 
-  private async getMXRecords(domain: string): Promise<MXRecord[]> {
+  // Definitive outcomes are returned; transient resolver failures throw DnsLookupError
+  private async getMXRecords(domain: string): Promise<{ outcome: DnsOutcome; records: MXRecord[] }> {
+    let records: MxAnswer[];
     try {
-      const records = await resolveMx(domain);
-      return records.map(record => ({
-        exchange: record.exchange,
-        priority: record.priority,
-        provider: this.mxProviders[record.exchange],
-      }));
+      records = (await this.dns.query(domain, 'MX')).records;
     } catch (error) {
-      throw new Error(`Failed to resolve MX records for ${domain}: ${error}`);
+      const code = error instanceof DnsError ? error.code : undefined;
+      if (code === 'ENOTFOUND') {
+        return { outcome: 'nxdomain', records: [] };
+      }
+      if (code !== 'ENODATA') {
+        throw new DnsLookupError(code === 'ESERVFAIL' ? 'servfail' : 'dns-error', domain, code);
+      }
+      records = [];
     }
-  }
 
-  private detectMXProvider(mxRecords: MXRecord[]): string | undefined {
-    for (const record of mxRecords) {
-      if (record.provider) {
-        return record.provider;
-      }
+    // RFC 7505: a single "MX 0 ." record means the domain accepts no mail at all
+    if (records.some(record => record.exchange === '' || record.exchange === '.')) {
+      return { outcome: 'null-mx', records: [] };
+    }
+
+    if (records.length === 0) {
+      return this.getImplicitMX(domain);
     }
-    return undefined;
+
+    return {
+      outcome: 'mx',
+      records: records.map(record => {
+        const match = this.providers.match(record.exchange);
+        return {
+          exchange: record.exchange,
+          priority: record.priority,
+          provider: match?.provider,
+          providerRuleId: match?.ruleId,
+        };
+      }),
+    };
   }
 
-  private async validateSMTP(email: string, mxRecords: MXRecord[], timeout: number): Promise<{ isValid: boolean; response?: string | undefined; errors?: string[] | undefined }> {
-    const errors: string[] = [];
+  // RFC 5321 5.1: without MX records the domain's own address record is the mail host
+  private async getImplicitMX(domain: string): Promise<{ outcome: DnsOutcome; records: MXRecord[] }> {
+    const lookups = await Promise.allSettled([this.dns.query(domain, 'A'), this.dns.query(domain, 'AAAA')]);
 
-    // Sort MX records by priority
-    const sortedMX = mxRecords.sort((a, b) => a.priority - b.priority);
+    const hasAddress = lookups.some(lookup => lookup.status === 'fulfilled' && lookup.value.records.length > 0);
+    if (hasAddress) {
+      return { outcome: 'implicit-mx', records: [{ exchange: domain, priority: 0, isImplicit: true }] };
+    }
 
-    for (const mxRecord of sortedMX) {
-      try {
-        const result = await this.connectToSMTP(mxRecord.exchange, email, timeout);
-        if (result.isValid) {
-          return { isValid: true, response: result.response };
-        }
-        errors.push(result.error || 'SMTP validation failed');
-      } catch (error) {
-        errors.push(`SMTP connection failed to ${mxRecord.exchange}: ${error}`);
-      }
+    const codes = lookups.map(lookup => (lookup.status === 'rejected' ? (lookup.reason as DnsError).code : 'ENODATA'));
+    const transient = codes.find(code => code !== 'ENODATA' && code !== 'ENOTFOUND');
+    if (transient) {
+      throw new DnsLookupError(transient === 'ESERVFAIL' ? 'servfail' : 'dns-error', domain, transient);
     }
+    return { outcome: 'no-data', records: [] };
+  }
 
-    return { isValid: false, errors };
+  private async validateSMTP(email: string, mxRecords: MXRecord[], timeout: number, smtpUtf8 = false): Promise<SmtpValidationOutcome> {
+    const outcomes = await this.validateSMTPBatch([email], mxRecords, timeout, smtpUtf8);
+    return outcomes.get(email) ?? { isValid: false, errors: ['No SMTP verdict'] };
   }
 
-  private async connectToSMTP(host: string, email: string, timeout: number): Promise<{ isValid: boolean; response?: string | undefined; error?: string | undefined }> {
-    return new Promise((resolve) => {
-      const socket = createConnection(25, host);
-      let response = '';
-      let isValid = false;
+  // Recipients of one domain asked in shared sessions. A definitive answer (250/251 or 5xx)
+  // settles a recipient; the others are retried on the next MX host. Recipients over the
+  // server's per-session limit are asked again in a new session on the same host.
+  private async validateSMTPBatch(
+    emails: string[],
+    mxRecords: MXRecord[],
+    timeout: number,
+    smtpUtf8 = false,
+    stopOnValid = false
+  ): Promise<Map<string, SmtpValidationOutcome>> {
+    const outcomes = new Map<string, SmtpValidationOutcome>();
+    const errors = new Map<string, string[]>(emails.map(email => [email, []]));
+    const deferredResponses = new Map<string, string>();
+    let stages: SmtpStageResult[] | undefined;
+    let identity: SmtpIdentityUsed | undefined;
 
-      const timer = setTimeout(() => {
-        socket.destroy();
-        resolve({ isValid: false, error: 'Connection timeout' });
-      }, timeout);
+    const hasValid = () => [...outcomes.values()].some(outcome => outcome.isValid);
+    const addError = (email: string, error: string) => errors.get(email)?.push(error);
 
-      socket.on('connect', () => {
-        socket.write('HELO example.com\r\n');
-      });
+    // Sort MX records by priority
+    const sortedMX = [...mxRecords].sort((a, b) => a.priority - b.priority);
+
+    hosts: for (const mxRecord of sortedMX) {
+      let pending = emails.filter(email => !outcomes.has(email));
+
+      while (pending.length > 0 && !(stopOnValid && hasValid())) {
+        const [recipient = '', ...additionalRecipients] = pending;
+        const overLimit: string[] = [];
 
-      socket.on('data', (data) => {
-        response += data.toString();
-        const lines = response.split('\r\n');
-        
-        for (const line of lines) {
-          if (line.startsWith('220')) {
-            socket.write('HELO example.com\r\n');
-          } else if (line.startsWith('250')) {
-            socket.write(`MAIL FROM: <test@example.com>\r\n`);
-          } else if (line.startsWith('250') && line.includes('MAIL FROM')) {
-            socket.write(`RCPT TO: <${email}>\r\n`);
-          } else if (line.startsWith('250') && line.includes('RCPT TO')) {
-            isValid = true;
-            socket.write('QUIT\r\n');
-          } else if (line.startsWith('550') || line.startsWith('551') || line.startsWith('553')) {
-            isValid = false;
-            socket.write('QUIT\r\n');
+        identity = this.identityPool.acquire();
+
+        try {
+          const { localAddress, heloHostname, mailFrom } = identity;
+          // Connections are queued per mail operator so parallel requests stay polite
+          const session = await this.scheduler.run(mxRecord.exchange, () => this.smtpClient.probe({
+            host: mxRecord.exchange,
+            localAddress,
+            recipient,
+            additionalRecipients,
+            stopOnAccept: stopOnValid,
+            heloHostname,
+            mailFrom,
+            smtpUtf8,
+            timeout,
+          }));
+          stages = session.stages;
+          this.recordIdentityHealth(identity.id, session);
+          await this.recordHostThrottling(mxRecord.exchange, session);
+
+          for (const { recipient: email, reply } of session.rcptReplies) {
+            const response = `${reply.code} ${reply.text}`;
+            const details = parseSmtpReply(response);
+
+            // 250/251: mailbox accepted, 5xx: permanently rejected. Both are
+            // definitive, so lower-priority MX hosts are not consulted.
+            if (details && isRecipientLimitReply(details)) {
+              overLimit.push(email);
+              if (!deferredResponses.has(email)) {
+                deferredResponses.set(email, response);
+              }
+              addError(email, `Recipient limit reached on ${mxRecord.exchange}: ${response}`);
+            } else if (reply.code === 250 || reply.code === 251) {
+              outcomes.set(email, { isValid: true, response, stages, identity });
+            } else if (reply.code >= 500) {
+              outcomes.set(email, { isValid: false, response, errors: [`Mailbox rejected: ${response}`], stages, identity });
+            } else {
+              if (reply.code >= 400 && !deferredResponses.has(email)) {
+                deferredResponses.set(email, response);
+              }
+              addError(email, `Recipient temporarily rejected by ${mxRecord.exchange}: ${response}`);
+            }
           }
+
+          if (session.smtpUtf8Unsupported) {
+            // Every host of the domain is normally the same platform; no point trying the rest
+            for (const email of pending) {
+              addError(email, `${mxRecord.exchange} does not accept internationalized (SMTPUTF8) addresses`);
+              outcomes.set(email, { isValid: false, reason: 'smtputf8-unsupported', errors: errors.get(email), stages, identity });
+            }
+            break hosts;
+          }
+
+          // Recipients the session never reached, unless it stopped at an accepted one on purpose
+          const asked = new Set(session.rcptReplies.map(({ recipient: email }) => email));
+          if (!(stopOnValid && hasValid())) {
+            pending
+              .filter(email => !asked.has(email))
+              .forEach(email => addError(email, `SMTP validation failed on ${mxRecord.exchange}: ${session.error || 'no RCPT TO reply'}`));
+          }
+
+          // Another session only helps if this one got past the limit with someone
+          pending = session.rcptReplies.length > overLimit.length ? overLimit : [];
+        } catch (error) {
+          pending.forEach(email => addError(email, `SMTP connection failed to ${mxRecord.exchange}: ${error}`));
+          pending = [];
         }
-      });
+      }
+    }
 
-      socket.on('close', () => {
-        clearTimeout(timer);
-        resolve({ isValid, response });
-      });
+    for (const email of emails) {
+      // 450/451/452 without any definitive answer: typically greylisting, retry later
+      const deferredResponse = deferredResponses.get(email);
 
-      socket.on('error', (error) => {
-        clearTimeout(timer);
-        resolve({ isValid: false, error: error.message });
-      });
-    });
-  }
+      // After a hit, only recipients that were actually answered get a verdict
+      if (outcomes.has(email) || (stopOnValid && hasValid() && !deferredResponse)) {
+        continue;
+      }
 
-  private async checkCatchAll(domain: string, mxRecords: MXRecord[], timeout: number): Promise<boolean> {
-    // Generate a random email that likely doesn't exist
-    const randomEmail = `nonexistent${Math.random().toString(36).substring(7)}@${domain}`;
-    
-    try {
-      const result = await this.validateSMTP(randomEmail, mxRecords, timeout);
-      // If a random email is accepted, it's likely a catch-all
-      return result.isValid;
-    } catch {
-      return false;
+      if (deferredResponse) {
+        outcomes.set(email, { isValid: false, isDeferred: true, response: deferredResponse, errors: errors.get(email), stages, identity });
+      } else {
+        outcomes.set(email, { isValid: false, errors: errors.get(email), stages, identity });
+      }
     }
-  }
 
-  private calculateConfidence(isValid: boolean, isCatchAll: boolean, mxCount: number): number {
-    let confidence = 0;
+    return outcomes;
+  }
 
-    if (isValid) {
-      confidence += 80;
-    } else {
-      confidence += 20;
+  // Refusals before RCPT TO and policy blocks reflect on our sending identity, not the mailbox
+  private recordIdentityHealth(identityId: string, session: SmtpProbeResult): void {
+    const reply = session.rcpt;
+    if (session.smtpUtf8Unsupported) {
+      this.identityPool.recordSuccess(identityId);
+      return;
+    }
+    if (reply && !/\b5\.7\.\d+\b|blocked|blacklist|blocklist|spamhaus|reputation/i.test(reply.text)) {
+      this.identityPool.recordSuccess(identityId);
+      return;
     }
 
-    if (isCatchAll) {
-      confidence -= 20;
+    if (reply) {
+      this.identityPool.recordFailure(identityId, `${reply.code} ${reply.text}`);
+    } else if (session.connected || /EADDRNOTAVAIL|EADDRINUSE/.test(session.error ?? '')) {
+      this.identityPool.recordFailure(identityId, session.error ?? 'Session ended before RCPT TO');
     }
+  }
 
-    if (mxCount > 1) {
-      confidence += 10;
+  // 421 (service not available) or a dropped connection mid-dialogue means we are going too fast
+  private async recordHostThrottling(host: string, session: SmtpProbeResult): Promise<void> {
+    const throttled = session.stages.some(stage => stage.code === 421)
+      || (session.connected && !session.rcpt && /closed|ECONNRESET|EPIPE/i.test(session.error ?? ''));
+
+    if (throttled) {
+      await this.scheduler.reportThrottled(host);
+    } else if (session.rcpt) {
+      this.scheduler.reportHealthy(host);
     }
+  }
 
-    return Math.max(0, Math.min(100, confidence));
+  // true: a random mailbox is accepted; false: rejected; null: no definitive answer
+  private async checkCatchAll(domain: string, mxRecords: MXRecord[], timeout: number): Promise<boolean | null> {
+    // Generate a random email that likely doesn't exist
+    const randomEmail = `nonexistent${Math.random().toString(36).substring(7)}@${domain}`;
+    
+    try {
+      const result = await this.validateSMTP(randomEmail, mxRecords, timeout);
+      if (result.isValid) {
+        return true;
+      }
+      return result.response && !result.isDeferred ? false : null;
+    } catch {
+      return null;
+    }
   }
 }
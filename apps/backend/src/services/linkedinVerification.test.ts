@@ -0,0 +1,108 @@
+import { LinkedInVerificationService, scoreCompany, scoreFirstName, scoreLastName } from './linkedinVerification';
+
+describe('scoreFirstName', () => {
+  it.each([
+    ['John', 'john', 30],
+    ['José', 'Jose', 30],
+    ['Bill', 'William', 25],
+    ['Chris', 'Christopher', 25],
+    ['Anne', 'Anne-Marie', 20],
+    ['John', 'J.', 10],
+    ['John', 'Jane', 0],
+    ['Al', 'Alan', 0],
+    ['John', '', 0],
+  ])('%s against %j scores %d', (requested, found, points) => {
+    expect(scoreFirstName(requested, found)).toBe(points);
+  });
+});
+
+describe('scoreLastName', () => {
+  it.each([
+    ['Smith', 'SMITH', 35],
+    ["O'Brien", 'OBrien', 35],
+    ['García López', 'Garcia', 25],
+    ['van der Berg', 'Berg', 25],
+    ['García-López', 'Garcia Lopez', 35],
+    ['Smith', 'Smyth', 0],
+  ])('%s against %j scores %d', (requested, found, points) => {
+    expect(scoreLastName(requested, found)).toBe(points);
+  });
+});
+
+describe('scoreCompany', () => {
+  it.each([
+    ['Acme Inc.', 'ACME GmbH', 25],
+    ['The Acme Company, Inc.', 'Acme', 25],
+    ['Acme', 'Acme Robotics', 15],
+    ['Acme Robotics Ltd', 'Robotics', 15],
+    ['Acme', 'Globex', 0],
+    ['Acme', '', 0],
+  ])('%s against %j scores %d', (requested, found, points) => {
+    expect(scoreCompany(requested, found)).toBe(points);
+  });
+});
+
+describe('LinkedInVerificationService name search', () => {
+  const input = { email: 'john.smith@acme.com', firstName: 'John', lastName: 'Smith', company: 'Acme' };
+
+  // Nothing is found by email, so the name and company search decides
+  const serviceReturning = (profiles: Array<Record<string, string>>) => {
+    const service = new LinkedInVerificationService();
+    (service as unknown as { httpClient: { post: (path: string) => Promise<{ data: unknown }> } }).httpClient = {
+      post: async (path: string) => ({ data: path === '/search-by-email' ? { profile: null } : { profiles } }),
+    };
+    return service;
+  };
+
+  it('verifies the best profile when it is well ahead', async () => {
+    const result = await serviceReturning([
+      { fullName: 'J. Smith', company: 'Acme', profileUrl: 'https://linkedin.com/in/j' },
+      { fullName: 'John Smith', company: 'Acme Inc.', profileUrl: 'https://linkedin.com/in/john' },
+    ]).verifyProfile(input);
+
+    expect(result).toMatchObject({ verified: true, confidence: 100, profileUrl: 'https://linkedin.com/in/john' });
+    expect(result.candidates?.map(candidate => candidate.score)).toEqual([100, 80]);
+  });
+
+  it('refuses to pick between two equally good profiles', async () => {
+    const result = await serviceReturning([
+      { fullName: 'John Smith', company: 'Acme' },
+      { firstName: 'John', lastName: 'Smith', company: 'Acme Inc' },
+    ]).verifyProfile(input);
+
+    expect(result.verified).toBe(false);
+    expect(result.errors).toEqual(['Several profiles matched about equally well (scores 100 and 100)']);
+  });
+
+  it('needs a lead of at least MIN_SCORE_LEAD points', async () => {
+    const tooClose = await serviceReturning([
+      { fullName: 'John Smith', company: 'Acme' },
+      { fullName: 'Johnny Smith', company: 'Acme' },
+    ]).verifyProfile(input);
+    const justEnough = await serviceReturning([
+      { fullName: 'John Smith', company: 'Acme' },
+      { fullName: 'Johnathan Smith', company: 'Acme' },
+    ]).verifyProfile(input);
+
+    expect(tooClose.verified).toBe(false);
+    expect(tooClose.candidates?.map(candidate => candidate.score)).toEqual([100, 95]);
+    expect(justEnough.verified).toBe(true);
+    expect(justEnough.candidates?.map(candidate => candidate.score)).toEqual([100, 90]);
+  });
+
+  it('ignores runners-up that do not match both names', async () => {
+    const result = await serviceReturning([
+      { fullName: 'John Smith', company: 'Acme' },
+      { fullName: 'Jane Smith', company: 'Acme' },
+    ]).verifyProfile(input);
+
+    expect(result.verified).toBe(true);
+  });
+
+  it('does not verify a profile below the minimum score', async () => {
+    const result = await serviceReturning([{ fullName: 'John Smith', company: 'Globex' }]).verifyProfile(input);
+
+    expect(result.verified).toBe(false);
+    expect(result.errors).toEqual(['No profile matched closely enough (best score 65, need 70)']);
+  });
+});
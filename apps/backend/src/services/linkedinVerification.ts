@@ -1,5 +1,7 @@
 import axios, { AxiosInstance } from 'axios';
 import { z } from 'zod';
+import { nicknames } from '../data/nicknames';
+import { nameVariants, normalizeNamePart, transliterateName } from './nameNormalization';
 
 export const LinkedInVerificationInput = z.object({
   email: z.string().email(),
@@ -10,15 +12,147 @@ export const LinkedInVerificationInput = z.object({
 
 export type LinkedInVerificationInput = z.infer<typeof LinkedInVerificationInput>;
 
+// A profile returned by the name and company search, scored against the request
+export interface LinkedInProfileCandidate {
+  profileUrl?: string | undefined;
+  name: string;
+  position?: string | undefined;
+  company?: string | undefined;
+  // 0-100; the sum of the points per criterion
+  score: number;
+  scores: {
+    firstName: number;
+    lastName: number;
+    company: number;
+    emailDomain: number;
+  };
+}
+
 export interface LinkedInProfile {
-  profileUrl?: string;
-  position?: string;
-  company?: string;
+  profileUrl?: string | undefined;
+  position?: string | undefined;
+  company?: string | undefined;
   verified: boolean;
   confidence: number;
+  // Every profile the name and company search returned, best first
+  candidates?: LinkedInProfileCandidate[];
   errors?: string[];
 }
 
+// A profile as the RapidAPI searches return it; results may carry only some of the fields
+const LinkedInSearchProfile = z.object({
+  profileUrl: z.string().nullish(),
+  fullName: z.string().nullish(),
+  name: z.string().nullish(),
+  firstName: z.string().nullish(),
+  lastName: z.string().nullish(),
+  position: z.string().nullish(),
+  company: z.string().nullish(),
+});
+
+type LinkedInSearchProfile = z.infer<typeof LinkedInSearchProfile>;
+
+const EmailSearchResponse = z.object({
+  profile: LinkedInSearchProfile.nullish(),
+});
+
+const NameSearchResponse = z.object({
+  profiles: z.array(LinkedInSearchProfile).nullish(),
+});
+
+// Points per criterion; a candidate needs MIN_MATCH_SCORE and both names to match
+const FIRST_NAME_POINTS = { exact: 30, nickname: 25, prefix: 20, initial: 10 };
+const LAST_NAME_POINTS = { exact: 35, partial: 25 };
+const COMPANY_POINTS = { exact: 25, partial: 15 };
+const EMAIL_DOMAIN_POINTS = 10;
+const MIN_MATCH_SCORE = 70;
+// How far the best candidate must be ahead of the next one that also matches both names;
+// two "John Smith" profiles at the same company cannot be told apart
+const MIN_SCORE_LEAD = 10;
+
+// Legal forms dropped before comparing company names ("Acme GmbH" is "Acme Inc.")
+const LEGAL_SUFFIXES = new Set([
+  'inc', 'incorporated', 'corp', 'corporation', 'co', 'company', 'llc', 'llp', 'lp',
+  'ltd', 'limited', 'plc', 'gmbh', 'ag', 'kg', 'ug', 'se', 'sa', 'sas', 'sarl', 'srl',
+  'spa', 'bv', 'nv', 'oy', 'ab', 'as', 'asa', 'aps', 'pty', 'pte', 'kk', 'group',
+]);
+
+// Given name -> the formal names it belongs to: "bill" -> william, "william" -> william
+const GIVEN_NAME_ROOTS = new Map<string, Set<string>>();
+Object.entries(nicknames).forEach(([formal, shortForms]) => {
+  [formal, ...shortForms].forEach(name => {
+    const roots = GIVEN_NAME_ROOTS.get(name) ?? new Set<string>();
+    roots.add(formal);
+    GIVEN_NAME_ROOTS.set(name, roots);
+  });
+});
+
+export function scoreFirstName(requested: string, found: string): number {
+  const a = normalizeNamePart(requested);
+  const b = normalizeNamePart(found);
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return FIRST_NAME_POINTS.exact;
+  }
+  const roots = GIVEN_NAME_ROOTS.get(a);
+  if (roots && [...(GIVEN_NAME_ROOTS.get(b) ?? [])].some(root => roots.has(root))) {
+    return FIRST_NAME_POINTS.nickname;
+  }
+  // "Chris" for "Christopher", "Anne" for "Anne-Marie"
+  if (Math.min(a.length, b.length) >= 3 && (a.startsWith(b) || b.startsWith(a))) {
+    return FIRST_NAME_POINTS.prefix;
+  }
+  // "J." for "John"
+  if (Math.min(a.length, b.length) === 1 && a[0] === b[0]) {
+    return FIRST_NAME_POINTS.initial;
+  }
+  return 0;
+}
+
+export function scoreLastName(requested: string, found: string): number {
+  const a = normalizeNamePart(requested);
+  const b = normalizeNamePart(found);
+  if (!a || !b) {
+    return 0;
+  }
+  if (a === b) {
+    return LAST_NAME_POINTS.exact;
+  }
+  // "García" for "García López", "Berg" for "van der Berg"
+  const requestedForms = new Set(nameVariants(requested, { isSurname: true }).map(variant => variant.value));
+  return nameVariants(found, { isSurname: true }).some(variant => requestedForms.has(variant.value))
+    ? LAST_NAME_POINTS.partial
+    : 0;
+}
+
+// "The Acme Company, Inc." -> ['acme']
+function normalizeCompanyName(company: string): string[] {
+  const words = transliterateName(company.replace(/\./g, '')).split(/[\s-]+/).filter(Boolean);
+  if (words[0] === 'the') {
+    words.shift();
+  }
+  while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1] ?? '')) {
+    words.pop();
+  }
+  return words;
+}
+
+export function scoreCompany(requested: string, found: string): number {
+  const a = normalizeCompanyName(requested);
+  const b = normalizeCompanyName(found);
+  if (a.length === 0 || b.length === 0) {
+    return 0;
+  }
+  if (a.join(' ') === b.join(' ')) {
+    return COMPANY_POINTS.exact;
+  }
+  // "Acme" for "Acme Robotics"
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.every(word => longer.includes(word)) ? COMPANY_POINTS.partial : 0;
+}
+
 export class LinkedInVerificationService {
   private readonly rapidApiKey: string;
   private readonly rapidApiHost: string;
@@ -53,17 +187,9 @@ export class LinkedInVerificationService {
 
       // If not found by email, try searching by name and company
       if (firstName && lastName && company) {
-        const profileByName = await this.searchByNameAndCompany(firstName, lastName, company);
+        const profileByName = await this.searchByNameAndCompany(email, firstName, lastName, company);
         
-        if (profileByName.verified) {
-          // Cross-reference with email domain
-          const emailDomain = email.split('@')[1];
-          const companyDomain = this.extractDomainFromCompany(company);
-          
-          if (emailDomain === companyDomain) {
-            profileByName.confidence += 20;
-          }
-          
+        if (profileByName.verified || profileByName.candidates?.length) {
           return profileByName;
         }
       }
@@ -89,13 +215,13 @@ export class LinkedInVerificationService {
       const response = await this.httpClient.post('/search-by-email', {
         email,
       });
+      const { profile } = this.parseResponse(EmailSearchResponse, response.data);
 
-      if (response.data && response.data.profile) {
-        const profile = response.data.profile;
+      if (profile) {
         return {
-          profileUrl: profile.profileUrl,
-          position: profile.position,
-          company: profile.company,
+          profileUrl: profile.profileUrl ?? undefined,
+          position: profile.position ?? undefined,
+          company: profile.company ?? undefined,
           verified: true,
           confidence: 85,
         };
@@ -122,7 +248,7 @@ export class LinkedInVerificationService {
     }
   }
 
-  private async searchByNameAndCompany(firstName: string, lastName: string, company: string): Promise<LinkedInProfile> {
+  private async searchByNameAndCompany(email: string, firstName: string, lastName: string, company: string): Promise<LinkedInProfile> {
     try {
       const response = await this.httpClient.post('/search-by-name-company', {
         firstName,
@@ -130,14 +256,41 @@ export class LinkedInVerificationService {
         company,
       });
 
-      if (response.data && response.data.profiles && response.data.profiles.length > 0) {
-        const profile = response.data.profiles[0]; // Take the first match
+      const { profiles } = this.parseResponse(NameSearchResponse, response.data);
+
+      if (profiles && profiles.length > 0) {
+        // Common names return several people; the search order says nothing about who is meant
+        const candidates = profiles
+          .map(profile => this.scoreProfile(profile, { email, firstName, lastName, company }))
+          .sort((a, b) => b.score - a.score);
+
+        const [best, ...others] = candidates;
+        if (!best || best.score < MIN_MATCH_SCORE || !this.matchesBothNames(best)) {
+          return {
+            verified: false,
+            confidence: 0,
+            candidates,
+            errors: [`No profile matched closely enough (best score ${best?.score ?? 0}, need ${MIN_MATCH_SCORE})`],
+          };
+        }
+
+        const runnerUp = others.find(candidate => this.matchesBothNames(candidate));
+        if (runnerUp && best.score - runnerUp.score < MIN_SCORE_LEAD) {
+          return {
+            verified: false,
+            confidence: 0,
+            candidates,
+            errors: [`Several profiles matched about equally well (scores ${best.score} and ${runnerUp.score})`],
+          };
+        }
+
         return {
-          profileUrl: profile.profileUrl,
-          position: profile.position,
-          company: profile.company,
+          profileUrl: best.profileUrl,
+          position: best.position,
+          company: best.company,
           verified: true,
-          confidence: 70,
+          confidence: best.score,
+          candidates,
         };
       }
 
@@ -162,6 +315,53 @@ export class LinkedInVerificationService {
     }
   }
 
+  // An unexpected shape is an API error, not a profile that was not found
+  private parseResponse<T extends z.ZodTypeAny>(schema: T, data: unknown): z.infer<T> {
+    const parsed = schema.safeParse(data ?? {});
+    if (!parsed.success) {
+      throw new Error(`LinkedIn API returned an unexpected response: ${parsed.error.issues[0]?.message ?? 'invalid data'}`);
+    }
+    return parsed.data;
+  }
+
+  private matchesBothNames(candidate: LinkedInProfileCandidate): boolean {
+    return candidate.scores.firstName > 0 && candidate.scores.lastName > 0;
+  }
+
+  private scoreProfile(
+    profile: LinkedInSearchProfile,
+    requested: { email: string; firstName: string; lastName: string; company: string }
+  ): LinkedInProfileCandidate {
+    // Some results only carry a full name: the first word is taken as the given name
+    const [firstWord = '', ...otherWords] = (profile.fullName ?? profile.name ?? '').trim().split(/\s+/);
+    const firstName = profile.firstName ?? firstWord;
+    const lastName = profile.lastName ?? otherWords.join(' ');
+    const company = profile.company ?? '';
+
+    const scores = {
+      firstName: scoreFirstName(requested.firstName, firstName),
+      lastName: scoreLastName(requested.lastName, lastName),
+      company: scoreCompany(requested.company, company),
+      emailDomain: company && this.isCompanyDomain(requested.email.split('@')[1] ?? '', company) ? EMAIL_DOMAIN_POINTS : 0,
+    };
+
+    return {
+      profileUrl: profile.profileUrl ?? undefined,
+      name: [firstName, lastName].filter(Boolean).join(' '),
+      position: profile.position ?? undefined,
+      company: profile.company ?? undefined,
+      score: scores.firstName + scores.lastName + scores.company + scores.emailDomain,
+      scores,
+    };
+  }
+
+  // The address belongs to the profile's employer: "acme.co.uk" for "Acme Ltd"
+  private isCompanyDomain(domain: string, company: string): boolean {
+    const labels = domain.toLowerCase().split('.');
+    const compact = normalizeCompanyName(company).join('');
+    return (!!compact && labels.slice(0, -1).includes(compact)) || domain.toLowerCase() === this.extractDomainFromCompany(company);
+  }
+
   private extractDomainFromCompany(company: string): string {
     // Simple domain extraction - in a real implementation, you might want to use
     // a more sophisticated approach or maintain a mapping of companies to domains
@@ -0,0 +1,167 @@
+import { asc, eq } from 'drizzle-orm';
+import { db } from '../config/database';
+import { mxProviderRules, systemSettings } from '../config/schema';
+import { defaultMxProviderRules } from '../data/mxProviderRules';
+import { MXRecord } from './emailValidation';
+
+export type MxProviderMatchType = 'exact' | 'suffix' | 'regex';
+
+export interface MxProviderRule {
+  id: string;
+  provider: string;
+  matchType: MxProviderMatchType;
+  pattern: string;
+  priority: number;
+}
+
+export interface MxProviderMatch {
+  provider: string;
+  ruleId: string;
+}
+
+interface CompiledRule extends MxProviderRule {
+  test: (host: string) => boolean;
+}
+
+const RULES_REFRESH_MS = 60 * 1000;
+const SEEDED_SETTING = 'mx_provider_rules_seeded';
+
+// Throws on an invalid regex so callers can reject the rule
+export function compileMxProviderRule(rule: MxProviderRule): CompiledRule {
+  const pattern = rule.pattern.toLowerCase().replace(/\.$/, '');
+
+  switch (rule.matchType) {
+    case 'exact':
+      return { ...rule, test: host => host === pattern };
+    case 'suffix':
+      return { ...rule, test: host => host === pattern || host.endsWith(`.${pattern}`) };
+    case 'regex': {
+      const regex = new RegExp(rule.pattern, 'i');
+      return { ...rule, test: host => regex.test(host) };
+    }
+  }
+}
+
+export class MxProviderService {
+  private rules: CompiledRule[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private seeded = false;
+
+  constructor(seedRules: MxProviderRule[] = defaultMxProviderRules) {
+    // Bundled rules work until the first load from the database completes
+    this.rules = this.compile(seedRules);
+  }
+
+  match(exchange: string): MxProviderMatch | undefined {
+    const host = exchange.toLowerCase().replace(/\.$/, '');
+    const rule = this.rules.find(candidate => candidate.test(host));
+    return rule ? { provider: rule.provider, ruleId: rule.id } : undefined;
+  }
+
+  // Provider of the most preferred MX host that has one
+  detectProvider(mxRecords: MXRecord[]): MxProviderMatch | undefined {
+    const sorted = [...mxRecords].sort((a, b) => a.priority - b.priority);
+    for (const record of sorted) {
+      const match = this.match(record.exchange);
+      if (match) {
+        return match;
+      }
+    }
+    return undefined;
+  }
+
+  // Stored records carry the provider from when they were looked up; this applies the current rules
+  withCurrentProviders(mxRecords: MXRecord[]): MXRecord[] {
+    return mxRecords.map(record => {
+      const match = record.isImplicit ? undefined : this.match(record.exchange);
+      return { ...record, provider: match?.provider, providerRuleId: match?.ruleId };
+    });
+  }
+
+  getRules(): MxProviderRule[] {
+    return this.rules.map(({ test: _test, ...rule }) => rule);
+  }
+
+  // Replace the in-memory rules with the active rules from the database
+  async reload(): Promise<void> {
+    try {
+      await this.seedOnce();
+      const rows = await db.query.mxProviderRules.findMany({
+        orderBy: [asc(mxProviderRules.priority), asc(mxProviderRules.id)],
+      });
+
+      this.rules = this.compile(rows
+        .filter(row => row.isActive)
+        .map(row => ({
+          id: row.id,
+          provider: row.provider,
+          matchType: row.matchType as MxProviderMatchType,
+          pattern: row.pattern,
+          priority: row.priority,
+        })));
+    } catch (error) {
+      // Keep the rules we have; detection must not depend on the database being up
+      console.error('MX provider rule load error:', error);
+    }
+  }
+
+  // Other instances pick up admin edits on their next poll
+  start(intervalMs = RULES_REFRESH_MS): void {
+    if (this.timer) {
+      return;
+    }
+    void this.reload();
+    this.timer = setInterval(() => {
+      void this.reload();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // The bundled rules are inserted into an empty table once per database; after that the
+  // table belongs to the admins, so deleting every rule leaves it empty
+  private async seedOnce(): Promise<void> {
+    if (this.seeded) {
+      return;
+    }
+
+    const flag = await db.query.systemSettings.findFirst({
+      where: eq(systemSettings.key, SEEDED_SETTING),
+    });
+
+    if (!flag) {
+      const existing = await db.query.mxProviderRules.findFirst();
+      if (!existing) {
+        const now = new Date();
+        await db.insert(mxProviderRules)
+          .values(defaultMxProviderRules.map(rule => ({ ...rule, createdAt: now, updatedAt: now })))
+          .onConflictDoNothing();
+      }
+      await db.insert(systemSettings)
+        .values({ key: SEEDED_SETTING, value: true, updatedAt: new Date() })
+        .onConflictDoNothing();
+    }
+
+    this.seeded = true;
+  }
+
+  private compile(rules: MxProviderRule[]): CompiledRule[] {
+    const compiled: CompiledRule[] = [];
+    for (const rule of [...rules].sort((a, b) => a.priority - b.priority)) {
+      try {
+        compiled.push(compileMxProviderRule(rule));
+      } catch (error) {
+        console.error(`Skipping MX provider rule ${rule.id}:`, error);
+      }
+    }
+    return compiled;
+  }
+}
+
+// Singleton instance
+export const mxProviderService = new MxProviderService();
@@ -0,0 +1,175 @@
+import { nanoid } from 'nanoid';
+import { cacheService } from './cache';
+
+export interface MxSchedulerOptions {
+  maxConcurrentPerHost: number;
+  minIntervalMs: number;
+  maxWaitMs: number;
+  // Without Redis, true goes on with this process's limits alone; false waits for Redis
+  // until maxWaitMs, so several processes can never exceed the shared limit together
+  failOpen: boolean;
+}
+
+interface HostState {
+  active: number;
+  waiting: Array<() => void>;
+  lastStartedAt: number;
+  backoffUntil: number;
+  penalties: number;
+}
+
+export class MxSchedulerTimeoutError extends Error {
+  constructor(hostKey: string, waitedMs: number) {
+    super(`Gave up waiting ${waitedMs}ms for a connection slot to ${hostKey}`);
+    this.name = 'MxSchedulerTimeoutError';
+  }
+}
+
+const BASE_BACKOFF_MS = 30 * 1000;
+const MAX_BACKOFF_MS = 15 * 60 * 1000;
+const SLOT_POLL_MS = 250;
+// A held shared slot is refreshed this often; holders silent for SLOT_STALE_MS are dropped
+const SLOT_HEARTBEAT_MS = 30 * 1000;
+const SLOT_STALE_MS = 2 * 60 * 1000;
+
+// Second-level labels under which registrable domains sit one level deeper (e.g. example.co.uk)
+const SHORT_SECOND_LEVEL = new Set(['co', 'com', 'net', 'org', 'gov', 'ac', 'edu']);
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export class MxHostScheduler {
+  private readonly hosts = new Map<string, HostState>();
+  private readonly options: MxSchedulerOptions;
+
+  constructor(options: Partial<MxSchedulerOptions> = {}) {
+    this.options = {
+      maxConcurrentPerHost: options.maxConcurrentPerHost ?? parseInt(process.env['MX_MAX_CONCURRENCY'] || '2'),
+      minIntervalMs: options.minIntervalMs ?? parseInt(process.env['MX_MIN_INTERVAL_MS'] || '1000'),
+      maxWaitMs: options.maxWaitMs ?? parseInt(process.env['MX_MAX_WAIT_MS'] || '60000'),
+      failOpen: options.failOpen ?? process.env['MX_SLOTS_FAIL_OPEN'] !== 'false',
+    };
+  }
+
+  // Limits are shared by all MX hosts of one operator (aspmx.l.google.com and
+  // alt1.aspmx.l.google.com are the same mail platform), keyed by registrable domain
+  hostKey(host: string): string {
+    const labels = host.toLowerCase().replace(/\.$/, '').split('.');
+    const secondLevel = labels[labels.length - 2];
+    const size = labels.length > 2 && secondLevel && SHORT_SECOND_LEVEL.has(secondLevel) ? 3 : 2;
+    return labels.slice(-size).join('.');
+  }
+
+  async run<T>(host: string, task: () => Promise<T>): Promise<T> {
+    const key = this.hostKey(host);
+    const state = this.state(key);
+    const started = Date.now();
+
+    await this.acquireLocal(key, state);
+
+    const holderId = nanoid();
+    let heartbeat: NodeJS.Timeout | null = null;
+    try {
+      await this.waitForTurn(key, holderId, state, started);
+      heartbeat = setInterval(() => {
+        void cacheService.refreshMxSlot(key, holderId, SLOT_STALE_MS);
+      }, SLOT_HEARTBEAT_MS);
+      return await task();
+    } finally {
+      if (heartbeat) {
+        clearInterval(heartbeat);
+        await cacheService.releaseMxSlot(key, holderId);
+      }
+      this.releaseLocal(state);
+    }
+  }
+
+  // Call when a host answers 421 or drops the connection: slow down for everybody
+  async reportThrottled(host: string): Promise<void> {
+    const key = this.hostKey(host);
+    const state = this.state(key);
+
+    const delay = Math.min(BASE_BACKOFF_MS * 2 ** state.penalties, MAX_BACKOFF_MS);
+    state.penalties++;
+    state.backoffUntil = Math.max(state.backoffUntil, Date.now() + delay);
+
+    await cacheService.setMxBackoff(key, state.backoffUntil);
+  }
+
+  reportHealthy(host: string): void {
+    this.state(this.hostKey(host)).penalties = 0;
+  }
+
+  private async waitForTurn(key: string, holderId: string, state: HostState, started: number): Promise<void> {
+    for (;;) {
+      if (Date.now() - started > this.options.maxWaitMs) {
+        throw new MxSchedulerTimeoutError(key, Date.now() - started);
+      }
+
+      const sharedBackoff = await cacheService.getMxBackoff(key);
+      state.backoffUntil = Math.max(state.backoffUntil, sharedBackoff);
+
+      const wait = Math.max(
+        state.backoffUntil - Date.now(),
+        state.lastStartedAt + this.options.minIntervalMs - Date.now(),
+        0
+      );
+      if (wait > 0) {
+        await sleep(Math.min(wait, this.options.maxWaitMs));
+        continue;
+      }
+
+      // Claimed before the shared slot is awaited, so concurrent starters in this
+      // process see it and keep minIntervalMs apart
+      state.lastStartedAt = Date.now();
+      const acquired = await cacheService.acquireMxSlot(key, holderId, this.options.maxConcurrentPerHost, SLOT_STALE_MS);
+      if (acquired) {
+        return;
+      }
+      if (acquired === null && this.options.failOpen) {
+        console.warn(`Redis unavailable, connecting to ${key} with process-local limits only`);
+        return;
+      }
+      await sleep(SLOT_POLL_MS + Math.random() * SLOT_POLL_MS);
+    }
+  }
+
+  // Waiters give up after maxWaitMs, like the wait for a shared slot
+  private acquireLocal(key: string, state: HostState): Promise<void> {
+    if (state.active < this.options.maxConcurrentPerHost) {
+      state.active++;
+      return Promise.resolve();
+    }
+    return new Promise((resolve, reject) => {
+      const waiter = () => {
+        clearTimeout(timer);
+        state.active++;
+        resolve();
+      };
+      const timer = setTimeout(() => {
+        state.waiting = state.waiting.filter(other => other !== waiter);
+        reject(new MxSchedulerTimeoutError(key, this.options.maxWaitMs));
+      }, this.options.maxWaitMs);
+      state.waiting.push(waiter);
+    });
+  }
+
+  private releaseLocal(state: HostState): void {
+    state.active--;
+    const next = state.waiting.shift();
+    if (next) {
+      next();
+    }
+  }
+
+  private state(key: string): HostState {
+    let state = this.hosts.get(key);
+    if (!state) {
+      state = { active: 0, waiting: [], lastStartedAt: 0, backoffUntil: 0, penalties: 0 };
+      this.hosts.set(key, state);
+    }
+    return state;
+  }
+}
+
+// Singleton instance so every request in this process shares the same limits
+export const mxHostScheduler = new MxHostScheduler();
@@ -0,0 +1,82 @@
+import { nameVariants, normalizeNamePart, normalizePersonName, transliterateName } from './nameNormalization';
+
+const values = (value: string, isSurname: boolean) =>
+  nameVariants(value, { isSurname }).map(variant => [variant.value, variant.origin, variant.penalty]);
+
+describe('transliterateName', () => {
+  it.each([
+    ['José', 'jose'],
+    ['Müller', 'muller'],
+    ['Strauß', 'strauss'],
+    ['Łukasz', 'lukasz'],
+    ['Søren Ærø', 'soren aero'],
+    ['Þórður', 'thordur'],
+    ["O'Brien", 'obrien'],
+    ['D’Angelo', 'dangelo'],
+    ['García - López', 'garcia-lopez'],
+    ['  Anne   Marie ', 'anne marie'],
+    ['Jean-Luc (JL)', 'jean-luc jl'],
+    ['-Zoë-', 'zoe'],
+  ])('%s → %s', (input, expected) => {
+    expect(transliterateName(input)).toBe(expected);
+  });
+});
+
+describe('normalizeNamePart', () => {
+  it('runs every word together', () => {
+    expect(normalizeNamePart('García-López')).toBe('garcialopez');
+    expect(normalizeNamePart('van der Berg')).toBe('vanderberg');
+  });
+});
+
+describe('nameVariants', () => {
+  it('offers a double surname joined, hyphenated and by its first part', () => {
+    expect(values('García-López', true)).toEqual([
+      ['garcialopez', 'joined', 0],
+      ['garcia-lopez', 'hyphenated', 5],
+      ['garcia', 'first-part', 10],
+    ]);
+    expect(values('García López', true)).toEqual([
+      ['garcialopez', 'joined', 0],
+      ['garcia', 'first-part', 10],
+    ]);
+  });
+
+  it('drops surname particles', () => {
+    expect(values('van der Berg', true)).toEqual([
+      ['vanderberg', 'joined', 0],
+      ['berg', 'without-particles', 10],
+    ]);
+  });
+
+  it('keeps a surname made only of particles whole', () => {
+    expect(values('De La', true)).toEqual([['dela', 'joined', 0]]);
+  });
+
+  it('treats particles as ordinary words in given names', () => {
+    expect(values('Anne-Marie', false)).toEqual([
+      ['annemarie', 'joined', 0],
+      ['anne-marie', 'hyphenated', 5],
+      ['anne', 'first-part', 10],
+    ]);
+    expect(values('Del', false)).toEqual([['del', 'joined', 0]]);
+  });
+
+  it('returns nothing for a name without letters', () => {
+    expect(nameVariants('!!!', { isSurname: false })).toEqual([]);
+  });
+});
+
+describe('normalizePersonName', () => {
+  it('keeps only the primary form of a middle name', () => {
+    const name = normalizePersonName({ firstName: 'José', middleName: 'Mary-Jane', lastName: 'de la Cruz' });
+
+    expect(name.first.map(variant => variant.value)).toEqual(['jose']);
+    expect(name.middle.map(variant => variant.value)).toEqual(['maryjane']);
+    expect(name.last.map(variant => variant.value)).toEqual(['delacruz', 'cruz']);
+  });
+
+  it('has no middle name unless one is given', () => {
+    expect(normalizePersonName({ firstName: 'Jane', lastName: 'Doe' }).middle).toEqual([]);
+  });
+});
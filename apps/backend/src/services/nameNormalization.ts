@@ -0,0 +1,118 @@
+// Turns names as people write them ("José García-López", "Anne-Marie van der Berg")
+// into the ASCII forms mail systems use in local parts
+
+export type NameVariantOrigin =
+  // All words run together: "garcialopez", "vanderberg"
+  | 'joined'
+  // Hyphen kept as written: "garcia-lopez"
+  | 'hyphenated'
+  // First word only: "garcia", "anne"
+  | 'first-part'
+  // Surname without its particles: "berg"
+  | 'without-particles'
+  // Short form of a formal given name: "bill" for "William"
+  | 'nickname'
+  // Formal given name behind a short form: "william" for "Bill"
+  | 'formal-name';
+
+export interface NameVariant {
+  value: string;
+  origin: NameVariantOrigin;
+  // Confidence points taken off patterns built with this variant
+  penalty: number;
+}
+
+export interface NormalizedName {
+  // Each list starts with the primary variant
+  first: NameVariant[];
+  middle: NameVariant[];
+  last: NameVariant[];
+}
+
+// Letters NFKD does not decompose into a base letter plus marks
+const SPECIAL_LETTERS: Record<string, string> = {
+  ß: 'ss', æ: 'ae', œ: 'oe', ø: 'o', đ: 'd', ð: 'd', ł: 'l', þ: 'th', ı: 'i', ħ: 'h',
+};
+
+// Lowercase surname particles (van der Berg, de la Cruz, von Neumann, ...)
+const SURNAME_PARTICLES = new Set([
+  'van', 'von', 'der', 'den', 'de', 'del', 'della', 'da', 'das', 'dos', 'do', 'di',
+  'du', 'des', 'la', 'le', 'ter', 'ten', 'zu', 'af', 'al', 'el', 'bin', 'ibn', 'st',
+]);
+
+const VARIANT_PENALTIES: Record<NameVariantOrigin, number> = {
+  'joined': 0,
+  'hyphenated': 5,
+  'first-part': 10,
+  'without-particles': 10,
+  'nickname': 10,
+  'formal-name': 5,
+};
+
+export function createNameVariant(value: string, origin: NameVariantOrigin): NameVariant {
+  return { value, origin, penalty: VARIANT_PENALTIES[origin] };
+}
+
+// Lowercase ASCII with diacritics removed; apostrophes vanish, spaces and hyphens are kept
+export function transliterateName(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[ßæœøđðłþıħ]/g, char => SPECIAL_LETTERS[char] ?? char)
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/['\u2019`\u02bc]/g, '')
+    .replace(/[^a-z0-9\s-]/g, ' ')
+    .replace(/\s*-\s*/g, '-')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s-]+|[\s-]+$/g, '');
+}
+
+// Primary local-part form of a name: "José" → "jose", "García-López" → "garcialopez"
+export function normalizeNamePart(value: string): string {
+  return transliterateName(value).replace(/[\s-]/g, '');
+}
+
+export function nameVariants(value: string, options: { isSurname: boolean }): NameVariant[] {
+  const name = transliterateName(value);
+  if (!name) {
+    return [];
+  }
+
+  const variants: NameVariant[] = [];
+  const add = (variantValue: string, origin: NameVariantOrigin) => {
+    if (variantValue && !variants.some(variant => variant.value === variantValue)) {
+      variants.push(createNameVariant(variantValue, origin));
+    }
+  };
+
+  const words = name.split(/[\s-]/).filter(Boolean);
+  add(words.join(''), 'joined');
+
+  if (name.includes('-')) {
+    add(name.replace(/\s/g, ''), 'hyphenated');
+  }
+
+  if (options.isSurname) {
+    // "van der Berg" → "berg"; a name made only of particles is kept whole
+    const core = words.filter(word => !SURNAME_PARTICLES.has(word));
+    if (core.length > 0 && core.length < words.length) {
+      add(core.join(''), 'without-particles');
+    }
+    // "García López" → "garcia": the paternal surname on its own
+    if (core.length > 1) {
+      add(core[0] ?? '', 'first-part');
+    }
+  } else if (words.length > 1) {
+    add(words[0] ?? '', 'first-part');
+  }
+
+  return variants;
+}
+
+export function normalizePersonName(person: { firstName: string; middleName?: string | undefined; lastName: string }): NormalizedName {
+  return {
+    first: nameVariants(person.firstName, { isSurname: false }),
+    middle: person.middleName ? nameVariants(person.middleName, { isSurname: false }).slice(0, 1) : [],
+    last: nameVariants(person.lastName, { isSurname: true }),
+  };
+}
@@ -0,0 +1,176 @@
+import { eq, sql } from 'drizzle-orm';
+import { nanoid } from 'nanoid';
+import { db } from '../config/database';
+import { emailPatterns } from '../config/schema';
+import { EmailValidationResult } from './emailValidation';
+import { DeliverabilityReason } from './deliverabilityStatus';
+
+export interface PatternStats {
+  successCount: number;
+  attemptCount: number;
+  // Smoothed success rate (0-1), so a single result does not read as certainty
+  successRate: number;
+}
+
+const MAX_SAMPLE_EMAILS = 5;
+const GLOBAL_STATS_REFRESH_MS = 10 * 60 * 1000;
+
+// Laplace smoothing: no evidence reads as 0.5
+const smoothedRate = (successCount: number, attemptCount: number) => (successCount + 1) / (attemptCount + 2);
+
+// Keep the first few addresses as evidence
+const appendSample = (sample: string) => sql`case
+  when coalesce(${emailPatterns.sampleEmails}, '[]'::jsonb) @> ${sample}::jsonb
+    or jsonb_array_length(coalesce(${emailPatterns.sampleEmails}, '[]'::jsonb)) >= ${MAX_SAMPLE_EMAILS}
+  then ${emailPatterns.sampleEmails}
+  else coalesce(${emailPatterns.sampleEmails}, '[]'::jsonb) || ${sample}::jsonb
+end`;
+
+// Answers about the mailbox itself; a policy block or a full mailbox says nothing about the pattern
+const MAILBOX_VERDICTS: ReadonlySet<DeliverabilityReason> = new Set(['accepted', 'mailbox-unknown']);
+
+// Only a real RCPT TO answer on a domain known not to accept everything says anything about a pattern
+export function isLearnableVerdict(validation: EmailValidationResult, domainIsCatchAll: boolean | null): boolean {
+  return domainIsCatchAll === false
+    && validation.validationMethod === 'smtp'
+    && !validation.isCatchAll
+    && !validation.isDeferred
+    && !!validation.smtpResponse
+    && MAILBOX_VERDICTS.has(validation.reason);
+}
+
+export class PatternLearningService {
+  private globalStats = new Map<string, PatternStats>();
+  private globalLoadedAt = 0;
+  private globalLoading: Promise<void> | null = null;
+
+  // Count one definitive verdict for each pattern that produces the address
+  async recordOutcome(domain: string, patterns: string[], email: string, isValid: boolean): Promise<void> {
+    const success = isValid ? 1 : 0;
+    const sample = JSON.stringify([email]);
+    const now = new Date();
+
+    for (const pattern of patterns) {
+      await db.insert(emailPatterns)
+        .values({
+          id: nanoid(),
+          domain,
+          pattern,
+          patternType: 'learned',
+          successCount: success,
+          attemptCount: 1,
+          successRate: success * 100,
+          sampleEmails: isValid ? [email] : [],
+          createdAt: now,
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [emailPatterns.domain, emailPatterns.pattern],
+          set: {
+            successCount: sql`${emailPatterns.successCount} + ${success}`,
+            attemptCount: sql`${emailPatterns.attemptCount} + 1`,
+            successRate: sql`round(100.0 * (${emailPatterns.successCount} + ${success}) / (${emailPatterns.attemptCount} + 1))`,
+            sampleEmails: isValid ? appendSample(sample) : sql`${emailPatterns.sampleEmails}`,
+            updatedAt: now,
+          },
+        });
+    }
+  }
+
+  // A real address known from elsewhere (e.g. a signature) marks its patterns as the
+  // domain's own. Resubmitting a stored sample does not count it twice.
+  async recordSample(domain: string, patterns: string[], email: string): Promise<void> {
+    const sample = JSON.stringify([email]);
+    const increment = sql`case when coalesce(${emailPatterns.sampleEmails}, '[]'::jsonb) @> ${sample}::jsonb then 0 else 1 end`;
+    const now = new Date();
+
+    for (const pattern of patterns) {
+      await db.insert(emailPatterns)
+        .values({
+          id: nanoid(),
+          domain,
+          pattern,
+          patternType: 'domain-specific',
+          successCount: 1,
+          attemptCount: 1,
+          successRate: 100,
+          sampleEmails: [email],
+          createdAt: now,
+          updatedAt: now,
+        })
+        .onConflictDoUpdate({
+          target: [emailPatterns.domain, emailPatterns.pattern],
+          set: {
+            patternType: 'domain-specific',
+            successCount: sql`${emailPatterns.successCount} + ${increment}`,
+            attemptCount: sql`${emailPatterns.attemptCount} + ${increment}`,
+            successRate: sql`round(100.0 * (${emailPatterns.successCount} + ${increment}) / (${emailPatterns.attemptCount} + ${increment}))`,
+            sampleEmails: appendSample(sample),
+            updatedAt: now,
+          },
+        });
+    }
+  }
+
+  async getDomainStats(domain: string): Promise<Map<string, PatternStats>> {
+    try {
+      const rows = await db.select({
+        pattern: emailPatterns.pattern,
+        successCount: emailPatterns.successCount,
+        attemptCount: emailPatterns.attemptCount,
+      })
+        .from(emailPatterns)
+        .where(eq(emailPatterns.domain, domain));
+
+      return new Map(rows
+        .filter(row => row.attemptCount > 0)
+        .map(row => [row.pattern, {
+          successCount: row.successCount,
+          attemptCount: row.attemptCount,
+          successRate: smoothedRate(row.successCount, row.attemptCount),
+        }]));
+    } catch (error) {
+      // Ranking falls back to the priors; pattern generation must not depend on the database
+      console.error('Pattern stats load error:', error);
+      return new Map();
+    }
+  }
+
+  // Totals across all domains, used as priors for domains without evidence of their own
+  async getGlobalStats(): Promise<Map<string, PatternStats>> {
+    if (Date.now() - this.globalLoadedAt > GLOBAL_STATS_REFRESH_MS) {
+      this.globalLoading = this.globalLoading ?? this.loadGlobalStats().finally(() => {
+        this.globalLoading = null;
+      });
+      await this.globalLoading;
+    }
+    return this.globalStats;
+  }
+
+  private async loadGlobalStats(): Promise<void> {
+    try {
+      const rows = await db.select({
+        pattern: emailPatterns.pattern,
+        successCount: sql<number>`sum(${emailPatterns.successCount})::int`,
+        attemptCount: sql<number>`sum(${emailPatterns.attemptCount})::int`,
+      })
+        .from(emailPatterns)
+        .groupBy(emailPatterns.pattern);
+
+      this.globalStats = new Map(rows
+        .filter(row => row.attemptCount > 0)
+        .map(row => [row.pattern, {
+          successCount: row.successCount,
+          attemptCount: row.attemptCount,
+          successRate: smoothedRate(row.successCount, row.attemptCount),
+        }]));
+    } catch (error) {
+      console.error('Global pattern stats load error:', error);
+    } finally {
+      this.globalLoadedAt = Date.now();
+    }
+  }
+}
+
+// Singleton instance
+export const patternLearningService = new PatternLearningService();
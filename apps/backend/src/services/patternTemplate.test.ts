@@ -0,0 +1,112 @@
+import {
+  PatternTemplateError,
+  matchPatternTemplate,
+  parsePatternTemplate,
+  renderPatternTemplate,
+} from './patternTemplate';
+
+describe('parsePatternTemplate', () => {
+  it('splits a template into names and literals', () => {
+    expect(parsePatternTemplate('{first}.{last}')).toEqual([
+      { kind: 'name', field: 'first', initial: false },
+      { kind: 'literal', value: '.' },
+      { kind: 'name', field: 'last', initial: false },
+    ]);
+  });
+
+  it('reads initials, their long names and prefix lengths', () => {
+    expect(parsePatternTemplate('{f}{last_initial}')).toEqual([
+      { kind: 'name', field: 'first', initial: true },
+      { kind: 'name', field: 'last', initial: true },
+    ]);
+    expect(parsePatternTemplate('{first:3}-hr')).toEqual([
+      { kind: 'name', field: 'first', initial: false, length: 3 },
+      { kind: 'literal', value: '-hr' },
+    ]);
+  });
+
+  it.each([
+    ['', 'template is empty', 0],
+    ['{first}.{last', 'unclosed "{"', 8],
+    ['{first}}', 'unexpected "}"', 7],
+    ['{first}+{last}', '"+" is not allowed', 7],
+    ['{nick}', 'unknown token "{nick}"', 0],
+    ['{f:2}', 'is already a single letter', 0],
+    ['{first:0}', 'needs a positive length', 0],
+    ['john.doe', 'needs at least one name token', 0],
+    ['.{last}', 'cannot start or end with "."', 0],
+    ['{first}.', 'cannot start or end with "."', 7],
+    ['{first}..{last}', 'cannot contain ".."', 7],
+  ])('rejects %j: %s at %d', (template, message, position) => {
+    let error: unknown;
+    try {
+      parsePatternTemplate(template);
+    } catch (caught) {
+      error = caught;
+    }
+
+    expect(error).toBeInstanceOf(PatternTemplateError);
+    expect((error as PatternTemplateError).message).toContain(message);
+    expect((error as PatternTemplateError).position).toBe(position);
+  });
+});
+
+describe('renderPatternTemplate', () => {
+  const names = { first: 'john', last: 'doe' };
+
+  it('fills in names, initials and prefixes', () => {
+    expect(renderPatternTemplate('{first}.{last}', names)).toBe('john.doe');
+    expect(renderPatternTemplate('{f}{last}', names)).toBe('jdoe');
+    expect(renderPatternTemplate('{first:3}.{last:10}', names)).toBe('joh.doe');
+  });
+
+  it('gives null for a name the person does not have', () => {
+    expect(renderPatternTemplate('{first}.{m}.{last}', names)).toBeNull();
+    expect(renderPatternTemplate('{first}.{m}.{last}', { ...names, middle: 'quincy' })).toBe('john.q.doe');
+  });
+});
+
+describe('matchPatternTemplate', () => {
+  it('recovers full names', () => {
+    expect(matchPatternTemplate('{first}.{last}', 'john.smith')).toEqual([
+      { first: { value: 'john', isPartial: false }, last: { value: 'smith', isPartial: false } },
+    ]);
+  });
+
+  it('marks initials and cut-off prefixes as partial', () => {
+    expect(matchPatternTemplate('{f}{last}', 'jsmith')).toEqual([
+      { first: { value: 'j', isPartial: true }, last: { value: 'smith', isPartial: false } },
+    ]);
+    expect(matchPatternTemplate('{first:3}.{last}', 'joh.smith')).toEqual([
+      { first: { value: 'joh', isPartial: true }, last: { value: 'smith', isPartial: false } },
+    ]);
+  });
+
+  it('returns every split when there is no separator', () => {
+    const matches = matchPatternTemplate('{first}{last}', 'johnsmith');
+
+    expect(matches).toHaveLength(6);
+    expect(matches).toContainEqual({ first: { value: 'john', isPartial: false }, last: { value: 'smith', isPartial: false } });
+    expect(matches.every(match => (match.first?.value.length ?? 0) >= 2 && (match.last?.value.length ?? 0) >= 2)).toBe(true);
+  });
+
+  it('requires a field used twice to read the same', () => {
+    expect(matchPatternTemplate('{first}.{f}', 'john.j')).toEqual([{ first: { value: 'john', isPartial: false } }]);
+    expect(matchPatternTemplate('{first}.{f}', 'john.k')).toEqual([]);
+  });
+
+  it('does not match literals or digits the template does not have', () => {
+    expect(matchPatternTemplate('{first}.{last}', 'john_smith')).toEqual([]);
+    expect(matchPatternTemplate('{first}.{last}', 'john.smith2')).toEqual([]);
+  });
+
+  it.each([
+    ['{first}.{last}', 'maria', 'garcia'],
+    ['{f}{m}{last}', 'm', 'garcia'],
+    ['{last}_{first:4}', 'mari', 'garcia'],
+  ])('reads back what %s rendered', (template, first, last) => {
+    const localPart = renderPatternTemplate(template, { first: 'maria', last: 'garcia', middle: 'luisa' }) ?? '';
+
+    expect(matchPatternTemplate(template, localPart).map(match => [match.first?.value, match.last?.value])).toContainEqual([first, last]);
+  });
+});
@@ -0,0 +1,214 @@
+import { z } from 'zod';
+
+// Templates describe a local part, e.g. "{first}.{last}", "{f}{last}", "{first:3}{l}"
+export type PatternField = 'first' | 'last' | 'middle';
+
+export type PatternToken =
+  | { kind: 'literal'; value: string }
+  | { kind: 'name'; field: PatternField; initial: boolean; length?: number };
+
+export interface PatternNames {
+  first: string;
+  last: string;
+  middle?: string | undefined;
+}
+
+// A name recovered from a local part; partial when only its initial or first letters are known
+export interface MatchedName {
+  value: string;
+  isPartial: boolean;
+}
+
+export type PatternMatch = Partial<Record<PatternField, MatchedName>>;
+
+export class PatternTemplateError extends Error {
+  constructor(
+    message: string,
+    public readonly template: string,
+    // Zero-based offset of the offending character
+    public readonly position: number
+  ) {
+    super(`Invalid pattern template "${template}": ${message} at position ${position}`);
+    this.name = 'PatternTemplateError';
+  }
+}
+
+const MAX_TEMPLATE_LENGTH = 64;
+const LITERAL_CHARS = /^[a-z0-9._-]$/;
+
+const NAME_TOKENS: Record<string, { field: PatternField; initial: boolean }> = {
+  first: { field: 'first', initial: false },
+  last: { field: 'last', initial: false },
+  middle: { field: 'middle', initial: false },
+  f: { field: 'first', initial: true },
+  l: { field: 'last', initial: true },
+  m: { field: 'middle', initial: true },
+  first_initial: { field: 'first', initial: true },
+  last_initial: { field: 'last', initial: true },
+  middle_initial: { field: 'middle', initial: true },
+};
+
+export function parsePatternTemplate(template: string): PatternToken[] {
+  if (template.length === 0) {
+    throw new PatternTemplateError('template is empty', template, 0);
+  }
+  if (template.length > MAX_TEMPLATE_LENGTH) {
+    throw new PatternTemplateError(`template is longer than ${MAX_TEMPLATE_LENGTH} characters`, template, MAX_TEMPLATE_LENGTH);
+  }
+
+  const tokens: PatternToken[] = [];
+  let index = 0;
+
+  while (index < template.length) {
+    const char = template.charAt(index);
+
+    if (char === '{') {
+      const end = template.indexOf('}', index);
+      if (end === -1) {
+        throw new PatternTemplateError('unclosed "{"', template, index);
+      }
+      tokens.push(parseNameToken(template, template.slice(index + 1, end), index));
+      index = end + 1;
+      continue;
+    }
+
+    if (char === '}') {
+      throw new PatternTemplateError('unexpected "}"', template, index);
+    }
+    if (!LITERAL_CHARS.test(char)) {
+      throw new PatternTemplateError(`"${char}" is not allowed; literals may use a-z, 0-9, ".", "_" and "-"`, template, index);
+    }
+
+    const last = tokens[tokens.length - 1];
+    if (last?.kind === 'literal') {
+      last.value += char;
+    } else {
+      tokens.push({ kind: 'literal', value: char });
+    }
+    index++;
+  }
+
+  if (!tokens.some(token => token.kind === 'name')) {
+    throw new PatternTemplateError('template needs at least one name token such as {first}', template, 0);
+  }
+  if (template.startsWith('.') || template.endsWith('.')) {
+    throw new PatternTemplateError('a local part cannot start or end with "."', template, template.startsWith('.') ? 0 : template.length - 1);
+  }
+  const doubleDot = template.indexOf('..');
+  if (doubleDot !== -1) {
+    throw new PatternTemplateError('a local part cannot contain ".."', template, doubleDot);
+  }
+
+  return tokens;
+}
+
+function parseNameToken(template: string, body: string, position: number): PatternToken {
+  const [name = '', length, ...rest] = body.split(':');
+  const token = NAME_TOKENS[name.trim()];
+  if (!token) {
+    throw new PatternTemplateError(`unknown token "{${body}}"`, template, position);
+  }
+  if (length === undefined) {
+    return { kind: 'name', ...token };
+  }
+
+  if (rest.length > 0 || !/^\d+$/.test(length) || parseInt(length) < 1) {
+    throw new PatternTemplateError(`"{${body}}" needs a positive length, e.g. {${name}:3}`, template, position);
+  }
+  if (token.initial) {
+    throw new PatternTemplateError(`"{${name}}" is already a single letter`, template, position);
+  }
+  return { kind: 'name', ...token, length: parseInt(length) };
+}
+
+// Null when the template needs a name the person does not have (e.g. {middle} without a middle name)
+export function renderPatternTemplate(template: string | PatternToken[], names: PatternNames): string | null {
+  const tokens = typeof template === 'string' ? parsePatternTemplate(template) : template;
+  let localPart = '';
+
+  for (const token of tokens) {
+    if (token.kind === 'literal') {
+      localPart += token.value;
+      continue;
+    }
+
+    const value = names[token.field] ?? '';
+    if (!value) {
+      return null;
+    }
+    localPart += token.initial ? value.charAt(0) : value.slice(0, token.length);
+  }
+
+  return localPart;
+}
+
+// Every way the template could have produced the local part: the inverse of renderPatternTemplate.
+// Full names are taken to be at least two letters long.
+export function matchPatternTemplate(template: string | PatternToken[], localPart: string): PatternMatch[] {
+  const tokens = typeof template === 'string' ? parsePatternTemplate(template) : template;
+  const matches: PatternMatch[] = [];
+
+  const walk = (index: number, position: number, names: PatternMatch) => {
+    const token = tokens[index];
+    if (!token) {
+      if (position === localPart.length) {
+        matches.push(names);
+      }
+      return;
+    }
+
+    if (token.kind === 'literal') {
+      if (localPart.startsWith(token.value, position)) {
+        walk(index + 1, position + token.value.length, names);
+      }
+      return;
+    }
+
+    const remaining = localPart.length - position;
+    const [min, max] = token.initial ? [1, 1] : token.length ? [1, token.length] : [2, remaining];
+    for (let length = min; length <= Math.min(max, remaining); length++) {
+      const value = localPart.slice(position, position + length);
+      if (!/^[a-z]+$/.test(value)) {
+        break;
+      }
+
+      const isPartial = token.initial || length === token.length;
+      const merged = mergeMatchedName(names[token.field], { value, isPartial });
+      if (merged) {
+        walk(index + 1, position + length, { ...names, [token.field]: merged });
+      }
+    }
+  };
+
+  walk(0, 0, {});
+  return matches;
+}
+
+// A field used twice (e.g. "{first}.{f}") must read the same both times; the fuller reading wins
+function mergeMatchedName(existing: MatchedName | undefined, next: MatchedName): MatchedName | null {
+  if (!existing) {
+    return next;
+  }
+  const [shorter, longer] = existing.value.length <= next.value.length ? [existing, next] : [next, existing];
+  if (!longer.value.startsWith(shorter.value) || (!shorter.isPartial && shorter.value !== longer.value)) {
+    return null;
+  }
+  return longer;
+}
+
+// Message of the first problem with a template, or null when it parses
+export function describePatternTemplateError(template: string): string | null {
+  try {
+    parsePatternTemplate(template);
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern template';
+  }
+}
+
+export const PatternTemplateInput = z.string().trim().superRefine((template, ctx) => {
+  const error = describePatternTemplateError(template);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
@@ -0,0 +1,69 @@
+import { SmtpReplyReader } from './smtpClient';
+
+describe('SmtpReplyReader', () => {
+  it('joins the lines of a multi-line reply', async () => {
+    const reader = new SmtpReplyReader();
+    reader.push('250-mx.example.com Hello\r\n250-SIZE 35882577\r\n250-8BITMIME\r\n250 STARTTLS\r\n');
+
+    await expect(reader.next()).resolves.toEqual({
+      code: 250,
+      lines: ['mx.example.com Hello', 'SIZE 35882577', '8BITMIME', 'STARTTLS'],
+      text: 'mx.example.com Hello\nSIZE 35882577\n8BITMIME\nSTARTTLS',
+    });
+  });
+
+  it('waits for the last line when a reply arrives in pieces', async () => {
+    const reader = new SmtpReplyReader();
+    const reply = reader.next();
+
+    reader.push('250-mx.example.com Hel');
+    reader.push('lo\r\n250-PIPELI');
+    reader.push('NING\r');
+    reader.push('\n250 SMTPUTF8\n');
+
+    await expect(reply).resolves.toMatchObject({ code: 250, lines: ['mx.example.com Hello', 'PIPELINING', 'SMTPUTF8'] });
+  });
+
+  it('hands out replies in order, one per next()', async () => {
+    const reader = new SmtpReplyReader();
+    reader.push('220 mx.example.com ESMTP\r\n250 2.1.0 Ok\r\n550-5.1.1 No such user\r\n550 5.1.1 Try again later\r\n');
+
+    await expect(reader.next()).resolves.toMatchObject({ code: 220, text: 'mx.example.com ESMTP' });
+    await expect(reader.next()).resolves.toMatchObject({ code: 250, text: '2.1.0 Ok' });
+    await expect(reader.next()).resolves.toMatchObject({ code: 550, lines: ['5.1.1 No such user', '5.1.1 Try again later'] });
+  });
+
+  it('ends a reply at a bare code and skips lines that are not replies', async () => {
+    const reader = new SmtpReplyReader();
+    reader.push('** banner noise **\r\n250\r\n');
+
+    await expect(reader.next()).resolves.toEqual({ code: 250, lines: [''], text: '' });
+  });
+
+  it('delivers complete replies before reporting a failure', async () => {
+    const reader = new SmtpReplyReader();
+    reader.push('250 Ok\r\n451-Partial');
+    reader.fail(new Error('Connection closed'));
+
+    await expect(reader.next()).resolves.toMatchObject({ code: 250 });
+    await expect(reader.next()).rejects.toThrow('Connection closed');
+  });
+
+  it('rejects a waiting read when the connection fails', async () => {
+    const reader = new SmtpReplyReader();
+    const reply = reader.next();
+
+    reader.fail(new Error('Timed out'));
+
+    await expect(reply).rejects.toThrow('Timed out');
+  });
+
+  it('forgets buffered data on reset', async () => {
+    const reader = new SmtpReplyReader();
+    reader.push('250-STARTTLS\r\n250 Ok\r\n220-Half');
+    reader.reset();
+    reader.push('220 Ready\r\n');
+
+    await expect(reader.next()).resolves.toEqual({ code: 220, lines: ['Ready'], text: 'Ready' });
+  });
+});
@@ -0,0 +1,393 @@
+import { createConnection, Socket } from 'net';
+import { connect as tlsConnect, TLSSocket } from 'tls';
+import { DnsResolver, resolveHostAddress } from './dnsResolver';
+
+export type SmtpStage = 'connect' | 'greeting' | 'ehlo' | 'helo' | 'starttls' | 'mail' | 'rcpt' | 'rset' | 'quit';
+
+export interface SmtpReply {
+  code: number;
+  lines: string[];
+  text: string;
+}
+
+export interface SmtpStageResult {
+  stage: SmtpStage;
+  command?: string | undefined;
+  code?: number | undefined;
+  text?: string | undefined;
+  durationMs: number;
+  error?: string | undefined;
+}
+
+export interface SmtpProbeOptions {
+  host: string;
+  port?: number | undefined;
+  // Local interface to bind, for deployments with several outbound IPs
+  localAddress?: string | undefined;
+  recipient: string;
+  // Further recipients asked in the same transaction, after `recipient`
+  additionalRecipients?: string[] | undefined;
+  // Stop asking once a recipient is accepted
+  stopOnAccept?: boolean | undefined;
+  heloHostname: string;
+  mailFrom: string;
+  // Recipient has a UTF-8 local part; requires the server to offer SMTPUTF8 (RFC 6531)
+  smtpUtf8?: boolean | undefined;
+  startTls?: boolean | undefined;
+  // Default per-stage timeout, overridable per stage
+  timeout: number;
+  stageTimeouts?: Partial<Record<SmtpStage, number>> | undefined;
+}
+
+export interface SmtpProbeResult {
+  host: string;
+  connected: boolean;
+  tls: boolean;
+  extensions: string[];
+  stages: SmtpStageResult[];
+  // Reply to the first RCPT TO
+  rcpt?: SmtpReply | undefined;
+  // Replies to every RCPT TO sent, in order; recipients after a stop or failure are missing
+  rcptReplies: Array<{ recipient: string; reply: SmtpReply }>;
+  smtpUtf8Unsupported?: boolean | undefined;
+  error?: string | undefined;
+}
+
+class SmtpTimeoutError extends Error {
+  constructor(stage: SmtpStage, timeout: number) {
+    super(`SMTP ${stage} timed out after ${timeout}ms`);
+    this.name = 'SmtpTimeoutError';
+  }
+}
+
+class SmtpTlsError extends Error {
+  constructor(message: string) {
+    super(`STARTTLS negotiation failed: ${message}`);
+    this.name = 'SmtpTlsError';
+  }
+}
+
+// Accumulates raw socket data into complete (possibly multi-line) SMTP replies
+export class SmtpReplyReader {
+  private buffer = '';
+  private pendingLines: string[] = [];
+  private readonly replies: SmtpReply[] = [];
+  private waiter: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  push(chunk: string): void {
+    this.buffer += chunk;
+
+    let newline: number;
+    while ((newline = this.buffer.indexOf('\n')) !== -1) {
+      const line = this.buffer.slice(0, newline).replace(/\r$/, '');
+      this.buffer = this.buffer.slice(newline + 1);
+      this.consumeLine(line);
+    }
+  }
+
+  fail(error: Error): void {
+    this.failure = error;
+    if (this.waiter) {
+      this.waiter.reject(error);
+      this.waiter = null;
+    }
+  }
+
+  // Drop anything buffered, used when the transport changes after STARTTLS
+  reset(): void {
+    this.buffer = '';
+    this.pendingLines = [];
+    this.replies.length = 0;
+    this.failure = null;
+  }
+
+  next(): Promise<SmtpReply> {
+    const reply = this.replies.shift();
+    if (reply) {
+      return Promise.resolve(reply);
+    }
+    if (this.failure) {
+      return Promise.reject(this.failure);
+    }
+    return new Promise((resolve, reject) => {
+      this.waiter = { resolve, reject };
+    });
+  }
+
+  private consumeLine(line: string): void {
+    const match = /^(\d{3})([ -]?)(.*)$/.exec(line);
+    if (!match) {
+      // Not a reply line; ignore noise rather than desynchronizing
+      return;
+    }
+
+    const [, code, separator, text] = match;
+    this.pendingLines.push(text ?? '');
+
+    // "250-..." continues a multi-line reply, "250 ..." (or a bare "250") ends it
+    if (separator === '-') {
+      return;
+    }
+
+    const reply: SmtpReply = {
+      code: parseInt(code ?? '0'),
+      lines: this.pendingLines,
+      text: this.pendingLines.join('\n'),
+    };
+    this.pendingLines = [];
+
+    if (this.waiter) {
+      this.waiter.resolve(reply);
+      this.waiter = null;
+    } else {
+      this.replies.push(reply);
+    }
+  }
+}
+
+class SmtpSession {
+  private socket: Socket | TLSSocket;
+  private readonly reader = new SmtpReplyReader();
+  readonly stages: SmtpStageResult[] = [];
+
+  constructor(private readonly options: SmtpProbeOptions, private readonly resolver?: DnsResolver) {
+    this.socket = new Socket();
+  }
+
+  async connect(): Promise<void> {
+    const { host, port = 25, localAddress } = this.options;
+    const started = Date.now();
+
+    try {
+      // Look the host up through the shared resolver so the answer is cached with the rest
+      const address = this.resolver
+        ? await this.withTimeout('connect', resolveHostAddress(this.resolver, host))
+        : host;
+
+      const socket = localAddress
+        ? createConnection({ port, host: address, localAddress })
+        : createConnection(port, address);
+      this.socket = socket;
+
+      await this.withTimeout('connect', new Promise<void>((resolve, reject) => {
+        socket.once('connect', () => resolve());
+        socket.once('error', reject);
+      }));
+      this.attach(this.socket);
+      this.stages.push({ stage: 'connect', durationMs: Date.now() - started });
+    } catch (error) {
+      this.stages.push({ stage: 'connect', durationMs: Date.now() - started, error: this.errorMessage(error) });
+      throw error;
+    }
+  }
+
+  // Read a reply without sending a command (the server greeting)
+  async read(stage: SmtpStage): Promise<SmtpReply> {
+    return this.exchange(stage, undefined);
+  }
+
+  async command(stage: SmtpStage, command: string): Promise<SmtpReply> {
+    return this.exchange(stage, command);
+  }
+
+  async upgradeToTls(): Promise<void> {
+    const plainSocket = this.socket as Socket;
+    plainSocket.removeAllListeners('data');
+    plainSocket.removeAllListeners('error');
+    plainSocket.removeAllListeners('close');
+    this.reader.reset();
+
+    try {
+      this.socket = await this.withTimeout('starttls', new Promise<TLSSocket>((resolve, reject) => {
+        const secure = tlsConnect({
+          socket: plainSocket,
+          servername: this.options.host,
+          // Receiving MTAs frequently present self-signed or mismatched certificates
+          rejectUnauthorized: false,
+        });
+        secure.once('secureConnect', () => resolve(secure));
+        secure.once('error', reject);
+      }));
+    } catch (error) {
+      plainSocket.destroy();
+      throw new SmtpTlsError(this.errorMessage(error));
+    }
+
+    this.attach(this.socket);
+  }
+
+  close(): void {
+    this.socket.removeAllListeners();
+    this.socket.on('error', () => undefined);
+    this.socket.destroy();
+  }
+
+  private async exchange(stage: SmtpStage, command: string | undefined): Promise<SmtpReply> {
+    const started = Date.now();
+
+    try {
+      if (command !== undefined) {
+        this.socket.write(`${command}\r\n`);
+      }
+      const reply = await this.withTimeout(stage, this.reader.next());
+      this.stages.push({ stage, command, code: reply.code, text: reply.text, durationMs: Date.now() - started });
+      return reply;
+    } catch (error) {
+      this.stages.push({ stage, command, durationMs: Date.now() - started, error: this.errorMessage(error) });
+      throw error;
+    }
+  }
+
+  private attach(socket: Socket | TLSSocket): void {
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.reader.push(chunk));
+    socket.on('error', (error) => this.reader.fail(error));
+    socket.on('close', () => this.reader.fail(new Error('Connection closed by server')));
+  }
+
+  private withTimeout<T>(stage: SmtpStage, promise: Promise<T>): Promise<T> {
+    const timeout = this.options.stageTimeouts?.[stage] ?? this.options.timeout;
+
+    return new Promise<T>((resolve, reject) => {
+      const timer = setTimeout(() => reject(new SmtpTimeoutError(stage, timeout)), timeout);
+      promise.then(
+        (value) => {
+          clearTimeout(timer);
+          resolve(value);
+        },
+        (error) => {
+          clearTimeout(timer);
+          reject(error);
+        }
+      );
+    });
+  }
+
+  private errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
+
+export class SmtpClient {
+  // Without a resolver, host names are looked up by the operating system on connect
+  constructor(private readonly resolver?: DnsResolver) {}
+
+  // Runs greeting -> EHLO/HELO -> STARTTLS -> MAIL FROM -> RCPT TO (one or more) -> RSET/QUIT
+  async probe(options: SmtpProbeOptions): Promise<SmtpProbeResult> {
+    try {
+      return await this.runSession(options);
+    } catch (error) {
+      // Some servers advertise STARTTLS but fail the handshake; retry in plain text once
+      if (error instanceof SmtpTlsError && options.startTls !== false) {
+        return this.probe({ ...options, startTls: false });
+      }
+      throw error;
+    }
+  }
+
+  private async runSession(options: SmtpProbeOptions): Promise<SmtpProbeResult> {
+    const session = new SmtpSession(options, this.resolver);
+    const result: SmtpProbeResult = {
+      host: options.host,
+      connected: false,
+      tls: false,
+      extensions: [],
+      stages: session.stages,
+      rcptReplies: [],
+    };
+
+    try {
+      await session.connect();
+      result.connected = true;
+
+      const greeting = await session.read('greeting');
+      if (greeting.code !== 220) {
+        result.error = `Server refused connection: ${greeting.code} ${greeting.text}`;
+        await this.quit(session);
+        return result;
+      }
+
+      result.extensions = await this.hello(session, options.heloHostname);
+
+      if (options.startTls !== false && result.extensions.includes('STARTTLS')) {
+        const starttls = await session.command('starttls', 'STARTTLS');
+        if (starttls.code === 220) {
+          await session.upgradeToTls();
+          result.tls = true;
+          // Extensions must be rediscovered over the secured channel
+          result.extensions = await this.hello(session, options.heloHostname);
+        }
+      }
+
+      let mailParameters = '';
+      if (options.smtpUtf8) {
+        if (!result.extensions.includes('SMTPUTF8')) {
+          // The server could not accept this recipient even if the mailbox exists
+          result.smtpUtf8Unsupported = true;
+          result.error = 'Server does not support SMTPUTF8 for internationalized addresses';
+          await this.quit(session);
+          return result;
+        }
+        mailParameters = ' SMTPUTF8';
+      }
+
+      const mail = await session.command('mail', `MAIL FROM:<${options.mailFrom}>${mailParameters}`);
+      if (mail.code < 200 || mail.code >= 300) {
+        result.error = `Sender rejected: ${mail.code} ${mail.text}`;
+        await this.quit(session);
+        return result;
+      }
+
+      for (const recipient of [options.recipient, ...(options.additionalRecipients ?? [])]) {
+        const rcpt = await session.command('rcpt', `RCPT TO:<${recipient}>`);
+        result.rcpt = result.rcpt ?? rcpt;
+        result.rcptReplies.push({ recipient, reply: rcpt });
+
+        // 421: the server is closing the channel
+        const accepted = rcpt.code === 250 || rcpt.code === 251;
+        if (rcpt.code === 421 || (accepted && options.stopOnAccept)) {
+          break;
+        }
+      }
+
+      await this.quit(session);
+      return result;
+
+    } catch (error) {
+      if (error instanceof SmtpTlsError) {
+        throw error;
+      }
+      result.error = error instanceof Error ? error.message : 'Unknown error';
+      return result;
+
+    } finally {
+      session.close();
+    }
+  }
+
+  // EHLO with HELO fallback for servers that do not speak ESMTP
+  private async hello(session: SmtpSession, hostname: string): Promise<string[]> {
+    const ehlo = await session.command('ehlo', `EHLO ${hostname}`);
+    if (ehlo.code === 250) {
+      // First line is the server greeting, the rest are extension keywords
+      return ehlo.lines.slice(1).map(line => line.split(' ')[0]?.toUpperCase() ?? '').filter(Boolean);
+    }
+
+    const helo = await session.command('helo', `HELO ${hostname}`);
+    if (helo.code !== 250) {
+      throw new Error(`Server rejected HELO: ${helo.code} ${helo.text}`);
+    }
+    return [];
+  }
+
+  // Best-effort transaction reset and goodbye; failures here do not affect the result
+  private async quit(session: SmtpSession): Promise<void> {
+    try {
+      await session.command('rset', 'RSET');
+      await session.command('quit', 'QUIT');
+    } catch {
+      // Server may already have closed the connection
+    }
+  }
+}
@@ -0,0 +1,112 @@
+import { SmtpIdentity, loadSmtpIdentities } from '../config/smtp';
+
+export interface SmtpIdentityHealth {
+  id: string;
+  localAddress?: string | undefined;
+  heloHostname: string;
+  healthy: boolean;
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  cooldownUntil?: string | undefined;
+  lastFailure?: string | undefined;
+}
+
+interface HealthState {
+  consecutiveFailures: number;
+  totalSuccesses: number;
+  totalFailures: number;
+  cooldownUntil: number;
+  lastFailure?: string | undefined;
+}
+
+// Consecutive failures before an identity is rested, and how long it rests
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 10 * 60 * 1000;
+const MAX_COOLDOWN_MS = 6 * 60 * 60 * 1000;
+
+export class SmtpIdentityPool {
+  private readonly identities: SmtpIdentity[];
+  private readonly health = new Map<string, HealthState>();
+  private cursor = 0;
+
+  constructor(identities: SmtpIdentity[] = loadSmtpIdentities()) {
+    if (identities.length === 0) {
+      throw new Error('At least one SMTP identity is required');
+    }
+    this.identities = identities;
+    identities.forEach(identity => this.health.set(identity.id, {
+      consecutiveFailures: 0,
+      totalSuccesses: 0,
+      totalFailures: 0,
+      cooldownUntil: 0,
+    }));
+  }
+
+  // Round-robin over healthy identities; if all are resting, use the one that recovers first
+  acquire(): SmtpIdentity {
+    const now = Date.now();
+
+    for (let i = 0; i < this.identities.length; i++) {
+      const identity = this.identities[(this.cursor + i) % this.identities.length]!;
+      if (this.state(identity.id).cooldownUntil <= now) {
+        this.cursor = (this.cursor + i + 1) % this.identities.length;
+        return identity;
+      }
+    }
+
+    return this.identities.reduce((best, identity) =>
+      this.state(identity.id).cooldownUntil < this.state(best.id).cooldownUntil ? identity : best
+    );
+  }
+
+  recordSuccess(identityId: string): void {
+    const state = this.state(identityId);
+    state.consecutiveFailures = 0;
+    state.totalSuccesses++;
+    state.cooldownUntil = 0;
+  }
+
+  // Called when a server refuses us before RCPT TO (greeting, HELO or sender rejected)
+  recordFailure(identityId: string, reason: string): void {
+    const state = this.state(identityId);
+    state.consecutiveFailures++;
+    state.totalFailures++;
+    state.lastFailure = reason;
+
+    if (state.consecutiveFailures >= FAILURE_THRESHOLD) {
+      const exponent = state.consecutiveFailures - FAILURE_THRESHOLD;
+      state.cooldownUntil = Date.now() + Math.min(BASE_COOLDOWN_MS * 2 ** exponent, MAX_COOLDOWN_MS);
+    }
+  }
+
+  getHealth(): SmtpIdentityHealth[] {
+    const now = Date.now();
+    return this.identities.map(identity => {
+      const state = this.state(identity.id);
+      return {
+        id: identity.id,
+        localAddress: identity.localAddress,
+        heloHostname: identity.heloHostname,
+        healthy: state.cooldownUntil <= now,
+        consecutiveFailures: state.consecutiveFailures,
+        totalSuccesses: state.totalSuccesses,
+        totalFailures: state.totalFailures,
+        cooldownUntil: state.cooldownUntil > now ? new Date(state.cooldownUntil).toISOString() : undefined,
+        lastFailure: state.lastFailure,
+      };
+    });
+  }
+
+  private state(identityId: string): HealthState {
+    let state = this.health.get(identityId);
+    if (!state) {
+      state = { consecutiveFailures: 0, totalSuccesses: 0, totalFailures: 0, cooldownUntil: 0 };
+      this.health.set(identityId, state);
+    }
+    return state;
+  }
+}
+
+// Singleton instance shared by all validations in this process
+export const smtpIdentityPool = new SmtpIdentityPool();
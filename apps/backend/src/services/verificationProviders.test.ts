@@ -0,0 +1,104 @@
+import {
+  FakeVerificationProvider,
+  VerificationProviderRegistry,
+  applyVerificationEvidence,
+  selectVerificationProviders,
+} from './verificationProviders';
+import { ScoredResult } from './confidenceScoring';
+import { loadVerificationConfig } from '../config/verification';
+
+const input = { email: 'jane@example.com', firstName: 'Jane', lastName: 'Doe', company: 'Example' };
+
+describe('VerificationProviderRegistry.run', () => {
+  it('adds the provider weight for a verified finding', async () => {
+    const fake = new FakeVerificationProvider('fake', 12).setVerified('Jane@Example.com', { source: 'test' });
+    const registry = new VerificationProviderRegistry().register(fake);
+
+    const [evidence] = await registry.run(input, [{ id: 'fake' }]);
+
+    expect(evidence).toMatchObject({ provider: 'fake', status: 'verified', contribution: 12, data: { source: 'test' } });
+    expect(fake.calls).toEqual(['jane@example.com']);
+  });
+
+  it('reports an unknown address as not found without points', async () => {
+    const registry = new VerificationProviderRegistry().register(new FakeVerificationProvider());
+
+    const [evidence] = await registry.run(input, [{ id: 'fake' }]);
+
+    expect(evidence).toMatchObject({ status: 'not_found', contribution: 0 });
+  });
+
+  it('turns a provider error into error evidence', async () => {
+    const registry = new VerificationProviderRegistry()
+      .register(new FakeVerificationProvider().setError('jane@example.com', 'CRM is down'));
+
+    const [evidence] = await registry.run(input, [{ id: 'fake' }]);
+
+    expect(evidence).toMatchObject({ status: 'error', contribution: 0, detail: 'CRM is down' });
+  });
+
+  it('stops waiting for a provider after its timeout', async () => {
+    const slow = new FakeVerificationProvider().setVerified('jane@example.com').setDelay(1000);
+    const registry = new VerificationProviderRegistry(5000).register(slow);
+
+    const [evidence] = await registry.run(input, [{ id: 'fake', timeoutMs: 100 }]);
+
+    expect(evidence).toMatchObject({ status: 'timeout', contribution: 0 });
+    expect(evidence?.durationMs).toBeLessThan(1000);
+  });
+
+  it('runs every provider, including ones this server does not have', async () => {
+    const registry = new VerificationProviderRegistry()
+      .register(new FakeVerificationProvider('crm', 20).setVerified('jane@example.com'))
+      .register(new FakeVerificationProvider('git-mirror', 10).setError('jane@example.com', 'No mirror'));
+
+    const evidence = await registry.run(input, [{ id: 'crm' }, { id: 'git-mirror' }, { id: 'linkedin' }]);
+
+    expect(evidence.map(item => [item.provider, item.status])).toEqual([
+      ['crm', 'verified'],
+      ['git-mirror', 'error'],
+      ['linkedin', 'unavailable'],
+    ]);
+  });
+});
+
+describe('applyVerificationEvidence', () => {
+  it('adds only verified findings to the confidence score', async () => {
+    const registry = new VerificationProviderRegistry()
+      .register(new FakeVerificationProvider('crm', 20).setVerified('jane@example.com'))
+      .register(new FakeVerificationProvider('fake', 10));
+    const evidence = await registry.run(input, [{ id: 'crm' }, { id: 'fake' }]);
+
+    const checked: ScoredResult = { confidence: 60, explanation: [{ factor: 'smtp', contribution: 60, detail: 'Accepted' }] };
+
+    const result = applyVerificationEvidence(checked, evidence);
+
+    expect(result.confidence).toBe(80);
+    expect(result.explanation?.filter(factor => factor.factor === 'external-verification')).toHaveLength(1);
+    expect(result.verification).toBe(evidence);
+  });
+});
+
+describe('selectVerificationProviders', () => {
+  const config = loadVerificationConfig({ VERIFICATION_PROVIDERS: 'linkedin, crm' });
+
+  it('runs nothing unless asked', () => {
+    expect(selectVerificationProviders([{ id: 'crm' }], { verify: false, checkLinkedIn: false }, config)).toEqual([]);
+  });
+
+  it('uses the API key list with verify', () => {
+    const configured = [{ id: 'crm', timeoutMs: 2000 }];
+
+    expect(selectVerificationProviders(configured, { verify: true, checkLinkedIn: false }, config)).toEqual(configured);
+  });
+
+  it('falls back to the server default for keys without a list', () => {
+    expect(selectVerificationProviders(null, { verify: true, checkLinkedIn: false }, config)).toEqual([{ id: 'linkedin' }, { id: 'crm' }]);
+  });
+
+  it('adds LinkedIn for checkLinkedIn, once', () => {
+    expect(selectVerificationProviders([{ id: 'crm' }], { verify: false, checkLinkedIn: true }, config)).toEqual([{ id: 'linkedin' }]);
+    expect(selectVerificationProviders([{ id: 'crm' }], { verify: true, checkLinkedIn: true }, config)).toEqual([{ id: 'crm' }, { id: 'linkedin' }]);
+    expect(selectVerificationProviders(null, { verify: true, checkLinkedIn: true }, config)).toEqual([{ id: 'linkedin' }, { id: 'crm' }]);
+  });
+});
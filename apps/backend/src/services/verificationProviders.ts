@@ -0,0 +1,332 @@
+import axios, { AxiosInstance } from 'axios';
+import { execFile } from 'child_process';
+import { readdir } from 'fs/promises';
+import { join } from 'path';
+import { promisify } from 'util';
+import { z } from 'zod';
+import { VerificationConfig, loadVerificationConfig } from '../config/verification';
+import { LinkedInVerificationService } from './linkedinVerification';
+import { ScoredResult, addConfidenceFactor } from './confidenceScoring';
+
+const execFileAsync = promisify(execFile);
+
+export interface VerificationInput {
+  email: string;
+  firstName?: string | undefined;
+  lastName?: string | undefined;
+  company?: string | undefined;
+}
+
+// What a provider found out about one address
+export interface VerificationFinding {
+  verified: boolean;
+  detail: string;
+  // Provider-specific facts, e.g. a profile URL or the commit that used the address
+  data?: Record<string, unknown> | undefined;
+}
+
+export interface VerificationProvider {
+  readonly id: string;
+  // Confidence points a verified finding is worth
+  readonly weight: number;
+  // Should give up when signal aborts; the registry stops waiting either way
+  verify(input: VerificationInput, signal: AbortSignal): Promise<VerificationFinding>;
+}
+
+export type VerificationStatus = 'verified' | 'not_found' | 'error' | 'timeout' | 'unavailable';
+
+export interface VerificationEvidence {
+  provider: string;
+  status: VerificationStatus;
+  // Points added to the confidence score; zero unless verified
+  contribution: number;
+  detail: string;
+  data?: Record<string, unknown> | undefined;
+  durationMs: number;
+}
+
+// How an API key runs one provider
+export const VerificationProviderSetting = z.object({
+  id: z.string().min(1).max(50),
+  timeoutMs: z.number().int().min(100).max(30000).optional(),
+});
+
+export type VerificationProviderSetting = z.infer<typeof VerificationProviderSetting>;
+
+export const VerificationProviderSettings = z.array(VerificationProviderSetting).max(10);
+
+export class VerificationProviderRegistry {
+  private readonly providers = new Map<string, VerificationProvider>();
+
+  constructor(private readonly defaultTimeoutMs = 5000) {}
+
+  register(provider: VerificationProvider): this {
+    this.providers.set(provider.id, provider);
+    return this;
+  }
+
+  has(id: string): boolean {
+    return this.providers.has(id);
+  }
+
+  list(): string[] {
+    return [...this.providers.keys()];
+  }
+
+  // Providers run side by side, each within its own time limit; a slow or failing
+  // provider yields evidence saying so instead of failing the request
+  async run(input: VerificationInput, settings: VerificationProviderSetting[]): Promise<VerificationEvidence[]> {
+    return Promise.all(settings.map(setting => this.runProvider(input, setting)));
+  }
+
+  private async runProvider(input: VerificationInput, setting: VerificationProviderSetting): Promise<VerificationEvidence> {
+    const provider = this.providers.get(setting.id);
+    if (!provider) {
+      return { provider: setting.id, status: 'unavailable', contribution: 0, detail: 'Provider not configured on this server', durationMs: 0 };
+    }
+
+    const timeoutMs = setting.timeoutMs ?? this.defaultTimeoutMs;
+    const controller = new AbortController();
+    const startedAt = Date.now();
+    let timer: NodeJS.Timeout | undefined;
+    const timedOut = new Promise<null>(resolve => {
+      timer = setTimeout(() => {
+        controller.abort();
+        resolve(null);
+      }, timeoutMs);
+    });
+
+    try {
+      const finding = await Promise.race([provider.verify(input, controller.signal), timedOut]);
+      const durationMs = Date.now() - startedAt;
+      if (!finding) {
+        return { provider: provider.id, status: 'timeout', contribution: 0, detail: `No answer within ${timeoutMs}ms`, durationMs };
+      }
+      return {
+        provider: provider.id,
+        status: finding.verified ? 'verified' : 'not_found',
+        contribution: finding.verified ? provider.weight : 0,
+        detail: finding.detail,
+        data: finding.data,
+        durationMs,
+      };
+    } catch (error) {
+      return {
+        provider: provider.id,
+        status: controller.signal.aborted ? 'timeout' : 'error',
+        contribution: 0,
+        detail: error instanceof Error ? error.message : 'Unknown error',
+        durationMs: Date.now() - startedAt,
+      };
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// RapidAPI LinkedIn profile lookup
+export class LinkedInVerificationProvider implements VerificationProvider {
+  readonly id = 'linkedin';
+  readonly weight = 15;
+
+  constructor(private readonly service = new LinkedInVerificationService()) {}
+
+  async verify(input: VerificationInput): Promise<VerificationFinding> {
+    const profile = await this.service.verifyProfile(input);
+    if (!profile.verified) {
+      return {
+        verified: false,
+        detail: profile.errors?.join('; ') || 'Profile not found on LinkedIn',
+        data: profile.candidates ? { candidates: profile.candidates } : undefined,
+      };
+    }
+    return {
+      verified: true,
+      detail: 'LinkedIn profile found',
+      data: {
+        profileUrl: profile.profileUrl,
+        position: profile.position,
+        company: profile.company,
+        matchScore: profile.candidates ? profile.confidence : undefined,
+        candidates: profile.candidates,
+      },
+    };
+  }
+}
+
+// Internal CRM: a known contact with this address
+export class CrmVerificationProvider implements VerificationProvider {
+  readonly id = 'crm';
+  readonly weight = 20;
+  private readonly httpClient: AxiosInstance;
+
+  constructor(url: string, token = '') {
+    this.httpClient = axios.create({
+      baseURL: url,
+      headers: token ? { Authorization: `Bearer ${token}` } : {},
+    });
+  }
+
+  async verify(input: VerificationInput, signal: AbortSignal): Promise<VerificationFinding> {
+    try {
+      const response = await this.httpClient.get('', { params: { email: input.email }, signal });
+      const contact = response.data?.contact;
+      if (!contact) {
+        return { verified: false, detail: 'No CRM contact with this address' };
+      }
+      return {
+        verified: true,
+        detail: contact.name ? `CRM contact ${contact.name}` : 'CRM contact found',
+        data: { contactId: contact.id, name: contact.name, company: contact.company, title: contact.title },
+      };
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 404) {
+        return { verified: false, detail: 'No CRM contact with this address' };
+      }
+      throw error;
+    }
+  }
+}
+
+// Commits authored with the address in a local mirror of GitHub repositories
+export class GitMirrorVerificationProvider implements VerificationProvider {
+  readonly id = 'git-mirror';
+  readonly weight = 10;
+
+  constructor(private readonly mirrorPath: string) {}
+
+  async verify(input: VerificationInput, signal: AbortSignal): Promise<VerificationFinding> {
+    const entries = await readdir(this.mirrorPath, { withFileTypes: true });
+    const repositories = entries.filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+
+    for (const repository of repositories) {
+      let stdout: string;
+      try {
+        ({ stdout } = await execFileAsync('git', [
+          '-C', join(this.mirrorPath, repository),
+          'log', '--all', '-1',
+          '--fixed-strings', '--regexp-ignore-case', `--author=<${input.email}>`,
+          '--format=%H%x09%an%x09%aI',
+        ], { signal }));
+      } catch (error) {
+        if (signal.aborted) {
+          throw error;
+        }
+        continue; // not a repository
+      }
+
+      const [commit, authorName, authoredAt] = stdout.trim().split('\t');
+      if (commit) {
+        return {
+          verified: true,
+          detail: `Commit author in ${repository}`,
+          data: { repository, commit, authorName, authoredAt },
+        };
+      }
+    }
+
+    return { verified: false, detail: `No commits by this address in ${repositories.length} mirrored repositories` };
+  }
+}
+
+// Canned answers for tests and local development; records every address it is asked about
+export class FakeVerificationProvider implements VerificationProvider {
+  readonly calls: string[] = [];
+  private readonly findings = new Map<string, VerificationFinding | Error>();
+  private delayMs = 0;
+
+  constructor(readonly id = 'fake', readonly weight = 10) {}
+
+  setVerified(email: string, data?: Record<string, unknown>): this {
+    this.findings.set(email.toLowerCase(), { verified: true, detail: 'Known to the fake provider', data });
+    return this;
+  }
+
+  setError(email: string, message: string): this {
+    this.findings.set(email.toLowerCase(), new Error(message));
+    return this;
+  }
+
+  // Answer only after ms, e.g. to exercise timeouts
+  setDelay(ms: number): this {
+    this.delayMs = ms;
+    return this;
+  }
+
+  async verify(input: VerificationInput, signal: AbortSignal): Promise<VerificationFinding> {
+    this.calls.push(input.email);
+
+    if (this.delayMs > 0) {
+      await new Promise<void>((resolve, reject) => {
+        const timer = setTimeout(resolve, this.delayMs);
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer);
+          reject(new Error('Aborted'));
+        }, { once: true });
+      });
+    }
+
+    const finding = this.findings.get(input.email.toLowerCase());
+    if (finding instanceof Error) {
+      throw finding;
+    }
+    return finding ?? { verified: false, detail: 'Unknown to the fake provider' };
+  }
+}
+
+// Providers a request runs: with verify, the API key's list or the server default;
+// checkLinkedIn on its own runs LinkedIn, as it did before providers existed
+export function selectVerificationProviders(
+  configured: VerificationProviderSetting[] | null | undefined,
+  options: { verify: boolean; checkLinkedIn: boolean },
+  config: VerificationConfig = loadVerificationConfig()
+): VerificationProviderSetting[] {
+  const settings = options.verify
+    ? configured ?? config.defaultProviders.map(id => ({ id }))
+    : [];
+  if (options.checkLinkedIn && !settings.some(setting => setting.id === 'linkedin')) {
+    return [...settings, { id: 'linkedin' }];
+  }
+  return settings;
+}
+
+// Every verified finding becomes an external-verification factor in the score
+export function applyVerificationEvidence<T extends ScoredResult>(
+  result: T,
+  evidence: VerificationEvidence[]
+): T & { verification: VerificationEvidence[] } {
+  const scored = evidence
+    .filter(item => item.status === 'verified')
+    .reduce((current, item) => addConfidenceFactor(current, 'external-verification', item.contribution, `${item.provider}: ${item.detail}`), result);
+  return { ...scored, verification: evidence };
+}
+
+// The stored linkedin_verified flag; undefined when LinkedIn was not asked
+export function linkedinVerified(evidence: VerificationEvidence[]): boolean | undefined {
+  const linkedin = evidence.find(item => item.provider === 'linkedin');
+  return linkedin ? linkedin.status === 'verified' : undefined;
+}
+
+export function createVerificationRegistry(config: VerificationConfig = loadVerificationConfig()): VerificationProviderRegistry {
+  const registry = new VerificationProviderRegistry(config.timeoutMs);
+
+  if (config.linkedin.enabled) {
+    registry.register(new LinkedInVerificationProvider());
+  }
+  if (config.crm.url) {
+    registry.register(new CrmVerificationProvider(config.crm.url, config.crm.token));
+  }
+  if (config.gitMirror.path) {
+    registry.register(new GitMirrorVerificationProvider(config.gitMirror.path));
+  }
+  if (config.fake.enabled) {
+    const fake = new FakeVerificationProvider();
+    config.fake.emails.forEach(email => fake.setVerified(email));
+    registry.register(fake);
+  }
+
+  return registry;
+}
+
+// Singleton instance
+export const verificationRegistry = createVerificationRegistry();
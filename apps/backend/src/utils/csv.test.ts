@@ -0,0 +1,49 @@
+import { parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with commas, quotes and line breaks', () => {
+    const content = 'firstName,lastName,companyName\r\nJane,Doe,"Acme, Inc."\r\n"Bob","O""Brien","Line\nbreak"\r\n';
+
+    expect(parseCsv(content)).toEqual([
+      ['firstName', 'lastName', 'companyName'],
+      ['Jane', 'Doe', 'Acme, Inc.'],
+      ['Bob', 'O"Brien', 'Line\nbreak'],
+    ]);
+  });
+
+  it('strips the BOM and skips blank lines', () => {
+    expect(parseCsv('\uFEFFa,b\n\n1,2\n,\n')).toEqual([['a', 'b'], ['1', '2']]);
+  });
+
+  it('keeps a last row without a line break', () => {
+    expect(parseCsv('a,b\n1,')).toEqual([['a', 'b'], ['1', '']]);
+  });
+
+  it('rejects an unterminated quoted field', () => {
+    expect(() => parseCsv('a,"b\n1,2')).toThrow('unterminated quoted field');
+  });
+});
+
+describe('toCsv', () => {
+  it('quotes only the values that need it', () => {
+    expect(toCsv(['name', 'note'], [['Jane', 'says "hi", twice'], [null, undefined], [42, true]])).toBe(
+      'name,note\r\nJane,"says ""hi"", twice"\r\n,\r\n42,true\r\n'
+    );
+  });
+
+  it('keeps values that start a formula as text', () => {
+    expect(toCsv(['value'], [['=HYPERLINK("http://evil")'], ['+1'], ['-2'], ['@SUM(A1)'], ['a=b']])).toBe(
+      'value\r\n"\'=HYPERLINK(""http://evil"")"\r\n\'+1\r\n\'-2\r\n\'@SUM(A1)\r\na=b\r\n'
+    );
+  });
+
+  it('leaves numbers alone', () => {
+    expect(toCsv(['confidence'], [[-5]])).toBe('confidence\r\n-5\r\n');
+  });
+
+  it('round-trips through parseCsv', () => {
+    const rows = [['Jane', 'Acme, Inc.'], ['Bob', 'O"Brien']];
+
+    expect(parseCsv(toCsv(['name', 'company'], rows))).toEqual([['name', 'company'], ...rows]);
+  });
+});
@@ -0,0 +1,29 @@
+// Long-running process for background work: bulk jobs and deferred re-checks.
+// Needed when the API runs with BACKGROUND_JOBS=worker, e.g. as a serverless function
+// that is stopped after each request. Run a single worker per database.
+import { bulkJobService } from './services/bulkJobs';
+import { deferredValidationService } from './services/deferredValidation';
+import { mxProviderService } from './services/mxProvider';
+import { emailClassificationService } from './services/emailClassification';
+
+function start() {
+  bulkJobService.start();
+  deferredValidationService.start();
+  mxProviderService.start();
+  emailClassificationService.start();
+  console.log('Background worker started');
+}
+
+function shutdown(signal: string) {
+  console.log(`Received ${signal}, stopping background worker`);
+  bulkJobService.stop();
+  deferredValidationService.stop();
+  mxProviderService.stop();
+  emailClassificationService.stop();
+  process.exit(0);
+}
+
+process.on('SIGINT', () => shutdown('SIGINT'));
+process.on('SIGTERM', () => shutdown('SIGTERM'));
+
+start();